@@ -85,7 +85,6 @@ const checkpointSpheres: THREE.Mesh[] = [];
 const labelSprites: Array<{ sprite: THREE.Sprite; baseY: number }> = [];
 const obstaclePillars: THREE.Mesh[] = [];
 let sprintScanner: THREE.Mesh<THREE.RingGeometry, THREE.MeshBasicMaterial> | undefined;
-let isCrouched = false;
 
 initializeScene();
 animate();
@@ -378,14 +377,22 @@ function setupControlPanel(): void {
     controller.updateOptions({ gravity: value });
   });
 
-  const crouchToggle = createCheckbox(panel, "Enable Crouch", params.enableCrouch, (checked) => {
+  createCheckbox(panel, "Enable Crouch", params.enableCrouch, (checked) => {
     params.enableCrouch = checked;
     controller.enableCrouch(checked);
-    if (!checked) {
-      isCrouched = false;
-      controller.setCrouch(false);
-      crouchButton.textContent = "Crouch";
-    }
+  });
+
+  createCheckbox(panel, "Toggle Crouch (C)", false, (checked) => {
+    controller.setCrouchMode(checked ? "toggle" : "hold");
+  });
+
+  createCheckbox(panel, "Toggle Sprint (Shift)", false, (checked) => {
+    controller.setSprintMode(checked ? "toggle" : "hold");
+  });
+
+  createCheckbox(panel, "Camera Effects", false, (checked) => {
+    const reducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    controller.setCameraEffects(checked ? { reducedMotion } : undefined);
   });
 
   createSlider(panel, "Crouch Height", 0.7, 1.6, 0.01, params.crouchHeight, (value) => {
@@ -421,18 +428,6 @@ function setupControlPanel(): void {
     controller.updateOptions({ fieldOfView: value });
   });
 
-  const crouchButton = createButton(panel, "Crouch", () => {
-    if (!params.enableCrouch) {
-      crouchToggle.checked = true;
-      crouchToggle.dispatchEvent(new Event("change"));
-      return;
-    }
-
-    isCrouched = !isCrouched;
-    controller.setCrouch(isCrouched);
-    crouchButton.textContent = isCrouched ? "Stand" : "Crouch";
-  });
-
   const pointerRow = document.createElement("div");
   pointerRow.className = "button-row";
   pointerRow.append(
@@ -504,19 +499,6 @@ function createCheckbox(
   return input;
 }
 
-function createButton(
-  container: HTMLElement,
-  text: string,
-  onClick: () => void,
-): HTMLButtonElement {
-  const button = createButtonElement(text, onClick);
-  const wrapper = document.createElement("div");
-  wrapper.className = "control-group";
-  wrapper.append(button);
-  container.append(wrapper);
-  return button;
-}
-
 function createButtonElement(text: string, onClick: () => void): HTMLButtonElement {
   const button = document.createElement("button");
   button.type = "button";
@@ -0,0 +1,1538 @@
+import * as THREE from "three";
+
+import {
+  DEFAULT_CROUCH_HEIGHT_RATIO,
+  DEFAULT_CROUCH_SPEED_MULTIPLIER,
+  DEFAULT_LADDER_CLIMB_SPEED,
+  DEFAULT_LADDER_FACING_ANGLE,
+  DEFAULT_LADDER_PUSH_OFF,
+  DEFAULT_PLAYER_CONFIG,
+  DEFAULT_SPRINT_MULTIPLIER,
+  DEFAULT_SWIM_SPEED,
+  DEFAULT_BUOYANCY,
+  DEFAULT_COYOTE_TIME,
+  DEFAULT_JUMP_BUFFER_TIME,
+  DEFAULT_SLIDE_FRICTION,
+  DEFAULT_WATER_DRAG,
+  DEFAULT_UP_ALIGN_SPEED,
+  DEFAULT_WALKABLE_SLOPE_ANGLE,
+  MOTOR_SNAPSHOT_VERSION,
+} from "./constants.js";
+import type {
+  CharacterMotorOptions,
+  CharacterMotorSnapshot,
+  CollisionContact,
+  CollisionOptions,
+  ControllerState,
+  GravityFn,
+  GroundCheckFn,
+  GroundInfo,
+  InputVector,
+  JumpCallback,
+  JumpState,
+  LadderOptions,
+  LadderVolume,
+  MotorInput,
+  MovementAction,
+  MovementMode,
+  PlayerConfig,
+  StaminaOptions,
+  StaminaState,
+  WaterVolume,
+} from "./types.js";
+import { CapsuleCollider } from "./collision/CapsuleCollider.js";
+import { boxTopAlong, setAlongAxis } from "./math/axis.js";
+import { Stamina } from "./movement/Stamina.js";
+import {
+  decodeNumber,
+  encodeNumber,
+  fromRecordedConfig,
+  toRecordedOptions,
+} from "./utils/encoding.js";
+import { hasOwn } from "./utils/hasOwn.js";
+
+const MIN_CROUCH_HEIGHT = 0.3;
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+const IDENTITY = new THREE.Quaternion();
+// Ladder volumes are grown by this much so feet resting on the floor still count as inside.
+const LADDER_MARGIN = 0.05;
+// Near the top, climbing also moves towards the ladder so the player steps onto the ledge.
+const LADDER_DISMOUNT_ZONE = 0.4;
+const LADDER_DETACH_TIME = 0.3;
+// Fraction of the body below the surface from which the character swims instead of wading.
+const SWIM_IMMERSION = 0.5;
+
+interface Ladder {
+  volume: LadderVolume;
+  normal: THREE.Vector3 | undefined;
+}
+
+interface GroundResult {
+  onGround: boolean;
+  groundNormal: THREE.Vector3 | null;
+  groundHeight: number;
+  groundObject?: THREE.Object3D | undefined;
+  surface?: string | undefined;
+}
+
+/**
+ * The movement rules without any DOM, camera or device input: feed it explicit input per tick
+ * and read back the state. Runs unchanged in Node, Web Workers and on a game server.
+ */
+export class CharacterMotor {
+  private readonly state: ControllerState = {
+    position: new THREE.Vector3(),
+    velocity: new THREE.Vector3(),
+    yaw: 0,
+    pitch: 0,
+    onGround: true,
+  };
+
+  private config: PlayerConfig;
+  private sprintMultiplier: number;
+  private jumpCallback: JumpCallback | undefined;
+  private gravityFn: GravityFn | undefined;
+  private groundCheckFn: GroundCheckFn | undefined;
+  private collider: CapsuleCollider | undefined;
+  private collisionCallback: ((contacts: CollisionContact[]) => void) | undefined;
+  private readonly collisionContacts: CollisionContact[] = [];
+  private stamina: Stamina | undefined;
+  private readonly collisionFloorNormal = new THREE.Vector3();
+  private readonly groundNormal = new THREE.Vector3(0, 1, 0);
+  private groundObject: THREE.Object3D | undefined;
+  private groundSurface: string | undefined;
+  private platform: THREE.Object3D | undefined;
+  private readonly platformMatrix = new THREE.Matrix4();
+  private readonly platformDelta = new THREE.Matrix4();
+  private readonly platformVelocity = new THREE.Vector3();
+  private readonly platformOffset = new THREE.Vector3();
+  private readonly platformTurn = new THREE.Quaternion();
+  private readonly platformScale = new THREE.Vector3();
+  private readonly carriedPosition = new THREE.Vector3();
+  private platformElapsed = 0;
+  private platformInterval = 0;
+  private hasCollisionFloor = false;
+  private crouchEnabled: boolean;
+  private crouching = false;
+  private crouchHeight: number;
+  private crouchSpeedMultiplier: number;
+  private currentHeight: number;
+  private ceilingHeight: number | undefined;
+  private headroomBlocked = false;
+  private maxStepHeight: number | undefined;
+  private maxSlopeAngle: number | undefined;
+  private movementMode: MovementMode = "walk";
+  private alignToGravity = false;
+  private upAlignSpeed = DEFAULT_UP_ALIGN_SPEED;
+  private readonly ladders: Ladder[] = [];
+  private ladderClimbSpeed = DEFAULT_LADDER_CLIMB_SPEED;
+  private ladderFacingAngle = THREE.MathUtils.degToRad(DEFAULT_LADDER_FACING_ANGLE);
+  private ladderPushOff = DEFAULT_LADDER_PUSH_OFF;
+  private ladderCooldown = 0;
+  private onLadder = false;
+  private ladderTop = 0;
+  private readonly ladderBox = new THREE.Box3();
+  private readonly ladderToward = new THREE.Vector3();
+  private readonly feetPoint = new THREE.Vector3();
+  private readonly waters: WaterVolume[] = [];
+  private swimSpeed = DEFAULT_SWIM_SPEED;
+  private waterDrag = DEFAULT_WATER_DRAG;
+  private buoyancy = DEFAULT_BUOYANCY;
+  private immersion = 0;
+  private swimming = false;
+  private underwater = false;
+  private coyoteTime = DEFAULT_COYOTE_TIME;
+  private jumpBufferTime = DEFAULT_JUMP_BUFFER_TIME;
+  private holdToJump = false;
+  private coyoteTimer = 0;
+  private jumpPressAge: number | undefined;
+  private jumpHeld = false;
+  private jumpCutMultiplier = 1;
+  private airJumps = 0;
+  private airJumpSpeed: number | undefined;
+  private airJumpsUsed = 0;
+  private jumpRising = false;
+  private slideFriction = DEFAULT_SLIDE_FRICTION;
+  private uphillSpeedMultiplier = 1;
+  private downhillSpeedMultiplier = 1;
+  private sliding = false;
+  private readonly slideNormal = new THREE.Vector3();
+  // Velocity of the last walking step before collisions and ground contact cancelled it.
+  private readonly impactVelocity = new THREE.Vector3();
+  private readonly slideAcross = new THREE.Vector3();
+  private readonly slideUphill = new THREE.Vector3();
+  private readonly move: InputVector = { x: 0, y: 0 };
+  private readonly actions = new Set<MovementAction>();
+  private readonly yawQuaternion = new THREE.Quaternion();
+  private readonly lookQuaternion = new THREE.Quaternion();
+  private readonly lookEuler = new THREE.Euler(0, 0, 0, "YXZ");
+  private readonly forwardVector = new THREE.Vector3();
+  private readonly rightVector = new THREE.Vector3();
+  private readonly moveDirection = new THREE.Vector3();
+  private readonly up = new THREE.Vector3(0, 1, 0);
+  private readonly upQuaternion = new THREE.Quaternion();
+  private readonly upTurn = new THREE.Quaternion();
+  private readonly targetUp = new THREE.Vector3();
+  private readonly tempDisplacement = new THREE.Vector3();
+  private readonly velocityChange = new THREE.Vector3();
+  private readonly horizontalVelocity = new THREE.Vector3();
+  private readonly gravityCache = new THREE.Vector3();
+  private readonly previousPosition = new THREE.Vector3();
+  private readonly collisionDisplacement = new THREE.Vector3();
+  private readonly heightLerpSpeed = 10;
+
+  constructor(options: CharacterMotorOptions = {}) {
+    this.config = { ...DEFAULT_PLAYER_CONFIG };
+    this.sprintMultiplier = DEFAULT_SPRINT_MULTIPLIER;
+    this.crouchEnabled = false;
+    this.crouchSpeedMultiplier = DEFAULT_CROUCH_SPEED_MULTIPLIER;
+    this.crouchHeight = this.computeCrouchHeight();
+    this.currentHeight = this.config.height;
+
+    this.updateOptions(options);
+    this.currentHeight = this.config.height;
+    this.state.position.copy(
+      options.initialPosition ?? new THREE.Vector3(0, this.config.height, 0),
+    );
+  }
+
+  updateOptions(options: CharacterMotorOptions): void {
+    const movementUpdates: Partial<PlayerConfig> = {};
+
+    if (options.height !== undefined) movementUpdates.height = options.height;
+    if (options.moveSpeed !== undefined) movementUpdates.moveSpeed = options.moveSpeed;
+    if (options.jumpSpeed !== undefined) movementUpdates.jumpSpeed = options.jumpSpeed;
+    if (options.gravity !== undefined) movementUpdates.gravity = options.gravity;
+    if (options.groundAcceleration !== undefined) {
+      movementUpdates.groundAcceleration = options.groundAcceleration;
+    }
+    if (options.groundDeceleration !== undefined) {
+      movementUpdates.groundDeceleration = options.groundDeceleration;
+    }
+    if (options.airAcceleration !== undefined) {
+      movementUpdates.airAcceleration = options.airAcceleration;
+    }
+    if (options.airControl !== undefined) movementUpdates.airControl = options.airControl;
+    if (options.maxHorizontalSpeed !== undefined) {
+      movementUpdates.maxHorizontalSpeed = options.maxHorizontalSpeed;
+    }
+    if (options.airDrag !== undefined) movementUpdates.airDrag = options.airDrag;
+
+    if (Object.keys(movementUpdates).length > 0) {
+      this.setMovementConfig(movementUpdates);
+    }
+
+    if (options.sprintMultiplier !== undefined) {
+      this.setSprintMultiplier(options.sprintMultiplier);
+    }
+
+    if (hasOwn(options, "gravityFn")) {
+      this.gravityFn = options.gravityFn ?? undefined;
+    }
+
+    if (hasOwn(options, "groundCheckFn")) {
+      this.groundCheckFn = options.groundCheckFn ?? undefined;
+    }
+
+    if (hasOwn(options, "collision")) {
+      this.setCollision(options.collision);
+    }
+
+    if (hasOwn(options, "stamina")) {
+      this.setStamina(options.stamina);
+    }
+
+    if (hasOwn(options, "enableCrouch")) {
+      this.enableCrouch(options.enableCrouch ?? false);
+    }
+
+    if (options.crouchHeight !== undefined) {
+      this.crouchHeight = this.computeCrouchHeight(options.crouchHeight);
+    } else {
+      this.crouchHeight = this.computeCrouchHeight(this.crouchHeight);
+    }
+
+    if (options.crouchSpeedMultiplier !== undefined) {
+      this.crouchSpeedMultiplier = Math.max(0.01, options.crouchSpeedMultiplier);
+    }
+
+    if (hasOwn(options, "maxStepHeight")) {
+      this.maxStepHeight =
+        options.maxStepHeight !== undefined ? Math.max(0, options.maxStepHeight) : undefined;
+    }
+
+    if (hasOwn(options, "maxSlopeAngle")) {
+      this.maxSlopeAngle =
+        options.maxSlopeAngle !== undefined
+          ? THREE.MathUtils.degToRad(Math.max(0, Math.min(89.9, options.maxSlopeAngle)))
+          : undefined;
+    }
+
+    if (hasOwn(options, "onJump")) {
+      this.setJumpCallback(options.onJump);
+    }
+
+    if (options.movementMode !== undefined) {
+      this.setMovementMode(options.movementMode);
+    }
+
+    if (options.alignToGravity !== undefined) {
+      this.alignToGravity = options.alignToGravity;
+    }
+
+    if (options.upAlignSpeed !== undefined) {
+      this.upAlignSpeed = Math.max(0, options.upAlignSpeed);
+    }
+
+    if (options.ladderClimbSpeed !== undefined) {
+      this.ladderClimbSpeed = Math.max(0, options.ladderClimbSpeed);
+    }
+
+    if (options.ladderFacingAngle !== undefined) {
+      this.ladderFacingAngle = THREE.MathUtils.degToRad(
+        THREE.MathUtils.clamp(options.ladderFacingAngle, 0, 180),
+      );
+    }
+
+    if (options.ladderPushOff !== undefined) {
+      this.ladderPushOff = Math.max(0, options.ladderPushOff);
+    }
+
+    if (options.swimSpeed !== undefined) this.swimSpeed = Math.max(0, options.swimSpeed);
+    if (options.waterDrag !== undefined) this.waterDrag = Math.max(0, options.waterDrag);
+    if (options.buoyancy !== undefined) this.buoyancy = Math.max(0, options.buoyancy);
+    if (options.coyoteTime !== undefined) this.coyoteTime = Math.max(0, options.coyoteTime);
+    if (options.jumpBufferTime !== undefined) {
+      this.jumpBufferTime = Math.max(0, options.jumpBufferTime);
+    }
+    if (options.holdToJump !== undefined) this.holdToJump = options.holdToJump;
+    if (options.jumpCutMultiplier !== undefined) {
+      this.jumpCutMultiplier = THREE.MathUtils.clamp(options.jumpCutMultiplier, 0, 1);
+    }
+    if (options.airJumps !== undefined) this.airJumps = Math.max(0, Math.floor(options.airJumps));
+    if (hasOwn(options, "airJumpSpeed")) {
+      this.airJumpSpeed =
+        options.airJumpSpeed !== undefined ? Math.max(0, options.airJumpSpeed) : undefined;
+    }
+    if (options.slideFriction !== undefined) {
+      this.slideFriction = Math.max(0, options.slideFriction);
+    }
+    if (options.uphillSpeedMultiplier !== undefined) {
+      this.uphillSpeedMultiplier = Math.max(0, options.uphillSpeedMultiplier);
+    }
+    if (options.downhillSpeedMultiplier !== undefined) {
+      this.downhillSpeedMultiplier = Math.max(0, options.downhillSpeedMultiplier);
+    }
+  }
+
+  /** Advances the simulation by `delta` seconds using only the given input. */
+  step(delta: number, input: MotorInput = {}): Readonly<ControllerState> {
+    this.applyInput(input);
+
+    if (delta >= 1e-6) {
+      this.updateUp(delta);
+      this.updateHeight(delta);
+      this.previousPosition.copy(this.state.position);
+      this.updatePlatform(delta);
+      this.updateJumpInput(delta);
+      this.updateLadder(delta);
+      this.updateWater();
+      const sprinting = this.isSprinting();
+
+      if (this.movementMode === "walk") {
+        if (this.onLadder) {
+          this.updateClimb(delta);
+        } else if (this.swimming) {
+          this.updateSwim(delta);
+        } else if (this.sliding) {
+          this.updateSlide(delta);
+        } else {
+          this.updateMovement(delta);
+          this.applyGravity(delta);
+        }
+        this.impactVelocity.copy(this.state.velocity);
+        this.resolveCollisions();
+        this.resolveGround(delta);
+      } else {
+        this.updateFlight(delta);
+        if (this.movementMode === "fly") {
+          this.resolveCollisions();
+        }
+      }
+
+      this.stamina?.update(delta, sprinting);
+    }
+
+    return this.getState();
+  }
+
+  setMovementConfig(config: Partial<PlayerConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.crouchHeight = this.computeCrouchHeight(this.crouchHeight);
+    const previousHeight = this.currentHeight;
+    this.currentHeight =
+      this.crouching && this.crouchEnabled ? this.crouchHeight : this.config.height;
+    if (this.state.onGround) {
+      this.state.position.addScaledVector(this.up, this.currentHeight - previousHeight);
+    }
+  }
+
+  getMovementConfig(): PlayerConfig {
+    return { ...this.config };
+  }
+
+  setSprintMultiplier(multiplier: number): void {
+    this.sprintMultiplier = Math.max(1, multiplier);
+  }
+
+  /**
+   * Switches between walking, flying and noclip. Position, velocity and look are kept; leaving
+   * `walk` lifts the character off the ground and returning to it lets gravity take over again.
+   */
+  setMovementMode(mode: MovementMode): void {
+    if (mode === this.movementMode) {
+      return;
+    }
+
+    this.movementMode = mode;
+    this.state.onGround = false;
+    this.platform = undefined;
+    this.sliding = false;
+    this.hasCollisionFloor = false;
+    this.collisionContacts.length = 0;
+  }
+
+  getMovementMode(): MovementMode {
+    return this.movementMode;
+  }
+
+  /** Enables the sprint stamina model, or removes it with `undefined`. */
+  setStamina(options: StaminaOptions | undefined): void {
+    if (!options) {
+      this.stamina = undefined;
+    } else if (this.stamina) {
+      this.stamina.updateOptions(options);
+    } else {
+      this.stamina = new Stamina(options);
+    }
+  }
+
+  getStamina(): StaminaState | undefined {
+    return this.stamina?.getState();
+  }
+
+  /**
+   * Turns the up axis to `up` along the shortest arc, carrying the view with it. Yaw and pitch
+   * stay relative to the local frame, so the camera keeps looking at the same spot on the
+   * horizon. With `alignToGravity` the axis is turned towards gravity on every step anyway.
+   */
+  setUp(up: THREE.Vector3): void {
+    if (up.lengthSq() === 0) {
+      return;
+    }
+
+    this.upTurn.setFromUnitVectors(this.up, this.targetUp.copy(up).normalize());
+    this.turnUp(this.upTurn);
+  }
+
+  getUp(target: THREE.Vector3): THREE.Vector3 {
+    return target.copy(this.up);
+  }
+
+  /** Rotation from world y to the current up axis; apply it after the yaw/pitch rotation. */
+  getUpOrientation(target: THREE.Quaternion): THREE.Quaternion {
+    return target.copy(this.upQuaternion);
+  }
+
+  /**
+   * Makes `volume` climbable. While the feet are inside it and the player faces it, forward
+   * and back climb along the up axis without gravity, jump pushes off and climbing past the
+   * top steps onto the ledge. Registering the same volume again replaces its options.
+   */
+  addLadder(volume: LadderVolume, options: LadderOptions = {}): void {
+    this.removeLadder(volume);
+    this.ladders.push({ volume, normal: options.normal?.clone().normalize() });
+  }
+
+  removeLadder(volume: LadderVolume): void {
+    const index = this.ladders.findIndex((ladder) => ladder.volume === volume);
+    if (index >= 0) {
+      this.ladders.splice(index, 1);
+    }
+  }
+
+  isOnLadder(): boolean {
+    return this.onLadder;
+  }
+
+  /**
+   * Adds water: a box whose top is the surface, or a function returning the surface height.
+   * Once at least half the body is below the surface the character swims: movement follows
+   * the view pitch, jump/ascend rise, descend dives, and buoyancy and drag replace gravity.
+   */
+  addWater(volume: WaterVolume): void {
+    if (!this.waters.includes(volume)) {
+      this.waters.push(volume);
+    }
+  }
+
+  removeWater(volume: WaterVolume): void {
+    const index = this.waters.indexOf(volume);
+    if (index >= 0) {
+      this.waters.splice(index, 1);
+    }
+  }
+
+  isSwimming(): boolean {
+    return this.swimming;
+  }
+
+  /** True while the eye is below the water surface. */
+  isUnderwater(): boolean {
+    return this.underwater;
+  }
+
+  /** True while sliding down a surface steeper than `maxSlopeAngle`. */
+  isSliding(): boolean {
+    return this.sliding;
+  }
+
+  /**
+   * Velocity on the last walking step before collisions and ground contact removed the part
+   * moving into surfaces, i.e. what the character hit the ground with when it landed.
+   */
+  getImpactVelocity(target: THREE.Vector3): THREE.Vector3 {
+    return target.copy(this.impactVelocity);
+  }
+
+  /** Normal of the steep surface being slid down, or `undefined` when not sliding. */
+  getSlideNormal(target: THREE.Vector3): THREE.Vector3 | undefined {
+    return this.sliding ? target.copy(this.slideNormal) : undefined;
+  }
+
+  /** Starts or stops sliding, e.g. to rewind to an earlier tick before re-simulating. */
+  setSlideNormal(normal: THREE.Vector3 | undefined): void {
+    this.sliding = normal !== undefined;
+    if (normal) {
+      this.slideNormal.copy(normal);
+    }
+  }
+
+  setCollision(options: CollisionOptions | undefined): void {
+    this.collisionContacts.length = 0;
+    this.hasCollisionFloor = false;
+
+    if (!options) {
+      this.collider = undefined;
+      this.collisionCallback = undefined;
+      return;
+    }
+
+    this.collider = new CapsuleCollider(options);
+    this.collisionCallback = options.onCollision ?? undefined;
+  }
+
+  getCollisionContacts(): CollisionContact[] {
+    return this.collisionContacts.map((contact) => ({
+      normal: contact.normal.clone(),
+      depth: contact.depth,
+    }));
+  }
+
+  setJumpCallback(callback: JumpCallback | undefined): void {
+    this.jumpCallback = callback;
+  }
+
+  enableCrouch(enabled: boolean): void {
+    this.crouchEnabled = enabled;
+    if (!enabled) {
+      this.crouching = false;
+    }
+  }
+
+  setCrouch(enabled: boolean): void {
+    if (!this.crouchEnabled) {
+      return;
+    }
+
+    this.crouching = enabled;
+  }
+
+  isCrouching(): boolean {
+    return this.crouching;
+  }
+
+  /** True while a low ceiling keeps the character from standing up after releasing crouch. */
+  isHeadroomBlocked(): boolean {
+    return this.headroomBlocked;
+  }
+
+  /** What the character is standing on, or `undefined` while airborne. */
+  getGroundInfo(): GroundInfo | undefined {
+    if (!this.state.onGround) {
+      return undefined;
+    }
+
+    return {
+      normal: this.groundNormal.clone(),
+      ...(this.groundSurface !== undefined ? { surface: this.groundSurface } : {}),
+      ...(this.groundObject ? { object: this.groundObject } : {}),
+    };
+  }
+
+  /**
+   * Velocity of the ground object under the character at its position, including rotation.
+   * It is added to the character's own velocity when it leaves the ground.
+   */
+  getPlatformVelocity(target: THREE.Vector3): THREE.Vector3 {
+    return this.platform ? target.copy(this.platformVelocity) : target.set(0, 0, 0);
+  }
+
+  /** True while sprint input is held with movement and stamina (if enabled) allows it. */
+  isSprinting(): boolean {
+    const moving = this.move.x !== 0 || this.move.y !== 0;
+    return (
+      moving &&
+      !this.onLadder &&
+      !this.swimming &&
+      this.actions.has("sprint") &&
+      (this.stamina?.canSprint() ?? true)
+    );
+  }
+
+  getHeight(): number {
+    return this.config.height;
+  }
+
+  /** Eye height above the feet right now; eases towards the crouch height while crouching. */
+  getCurrentHeight(): number {
+    return this.currentHeight;
+  }
+
+  setCurrentHeight(height: number): void {
+    this.currentHeight = Math.max(0, height);
+  }
+
+  getJumpState(): JumpState {
+    return {
+      coyoteTimer: this.coyoteTimer,
+      ...(this.jumpPressAge !== undefined ? { jumpPressAge: this.jumpPressAge } : {}),
+      jumpHeld: this.jumpHeld,
+      airJumpsUsed: this.airJumpsUsed,
+      jumpRising: this.jumpRising,
+    };
+  }
+
+  /** Rewinds the jump timing, e.g. to an earlier tick before re-simulating from it. */
+  setJumpState(state: Readonly<JumpState>): void {
+    this.coyoteTimer = Math.max(0, state.coyoteTimer);
+    this.jumpPressAge = state.jumpPressAge;
+    this.jumpHeld = state.jumpHeld;
+    this.airJumpsUsed = Math.max(0, state.airJumpsUsed);
+    this.jumpRising = state.jumpRising;
+  }
+
+  getState(): Readonly<ControllerState> {
+    const state: ControllerState = {
+      position: this.state.position.clone(),
+      velocity: this.state.velocity.clone(),
+      yaw: this.state.yaw,
+      pitch: this.state.pitch,
+      onGround: this.state.onGround,
+    };
+    if (this.stamina) {
+      state.stamina = this.stamina.getState();
+    }
+    return Object.freeze(state);
+  }
+
+  setState(state: Partial<Readonly<ControllerState>>): void {
+    if (state.position) {
+      this.state.position.copy(state.position);
+      this.platform = undefined;
+    }
+    if (state.velocity) this.state.velocity.copy(state.velocity);
+    if (state.yaw !== undefined) this.state.yaw = state.yaw;
+    if (state.pitch !== undefined) this.state.pitch = state.pitch;
+    if (state.onGround !== undefined) this.state.onGround = state.onGround;
+    if (state.stamina) this.stamina?.setState(state.stamina);
+  }
+
+  getPosition(target: THREE.Vector3): THREE.Vector3 {
+    return target.copy(this.state.position);
+  }
+
+  getAngles(): { yaw: number; pitch: number } {
+    return { yaw: this.state.yaw, pitch: this.state.pitch };
+  }
+
+  setLookAngles(yaw: number, pitch: number): void {
+    this.state.yaw = yaw;
+    this.state.pitch = pitch;
+  }
+
+  serialize(): CharacterMotorSnapshot {
+    const { position, velocity } = this.state;
+    return {
+      version: MOTOR_SNAPSHOT_VERSION,
+      position: [position.x, position.y, position.z],
+      velocity: [velocity.x, velocity.y, velocity.z],
+      yaw: this.state.yaw,
+      pitch: this.state.pitch,
+      onGround: this.state.onGround,
+      height: this.currentHeight,
+      crouching: this.crouching,
+      config: toRecordedOptions(this.config),
+      sprintMultiplier: encodeNumber(this.sprintMultiplier),
+      enableCrouch: this.crouchEnabled,
+      crouchHeight: encodeNumber(this.crouchHeight),
+      crouchSpeedMultiplier: encodeNumber(this.crouchSpeedMultiplier),
+      maxStepHeight: this.maxStepHeight !== undefined ? encodeNumber(this.maxStepHeight) : null,
+      maxSlopeAngle:
+        this.maxSlopeAngle !== undefined
+          ? encodeNumber(THREE.MathUtils.radToDeg(this.maxSlopeAngle))
+          : null,
+      movementMode: this.movementMode,
+      ...(this.stamina ? { stamina: this.stamina.serialize() } : {}),
+      alignToGravity: this.alignToGravity,
+      upAlignSpeed: encodeNumber(this.upAlignSpeed),
+      upOrientation: [
+        this.upQuaternion.x,
+        this.upQuaternion.y,
+        this.upQuaternion.z,
+        this.upQuaternion.w,
+      ],
+      ladderClimbSpeed: encodeNumber(this.ladderClimbSpeed),
+      ladderFacingAngle: encodeNumber(THREE.MathUtils.radToDeg(this.ladderFacingAngle)),
+      ladderPushOff: encodeNumber(this.ladderPushOff),
+      ladderCooldown: this.ladderCooldown,
+      swimSpeed: encodeNumber(this.swimSpeed),
+      waterDrag: encodeNumber(this.waterDrag),
+      buoyancy: encodeNumber(this.buoyancy),
+      coyoteTime: encodeNumber(this.coyoteTime),
+      jumpBufferTime: encodeNumber(this.jumpBufferTime),
+      holdToJump: this.holdToJump,
+      coyoteTimer: this.coyoteTimer,
+      ...(this.jumpPressAge !== undefined ? { jumpPressAge: this.jumpPressAge } : {}),
+      jumpHeld: this.jumpHeld,
+      jumpCutMultiplier: encodeNumber(this.jumpCutMultiplier),
+      airJumps: encodeNumber(this.airJumps),
+      airJumpSpeed: this.airJumpSpeed !== undefined ? encodeNumber(this.airJumpSpeed) : null,
+      airJumpsUsed: this.airJumpsUsed,
+      jumpRising: this.jumpRising,
+      slideFriction: encodeNumber(this.slideFriction),
+      uphillSpeedMultiplier: encodeNumber(this.uphillSpeedMultiplier),
+      downhillSpeedMultiplier: encodeNumber(this.downhillSpeedMultiplier),
+      ...(this.sliding
+        ? { slideNormal: [this.slideNormal.x, this.slideNormal.y, this.slideNormal.z] }
+        : {}),
+      groundNormal: [this.groundNormal.x, this.groundNormal.y, this.groundNormal.z],
+      ...(this.platform
+        ? {
+            platform: {
+              velocity: [this.platformVelocity.x, this.platformVelocity.y, this.platformVelocity.z],
+              elapsed: this.platformElapsed,
+              interval: this.platformInterval,
+            },
+          }
+        : {}),
+    };
+  }
+
+  restore(snapshot: CharacterMotorSnapshot): void {
+    if (snapshot.version !== MOTOR_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported motor snapshot version ${String(snapshot.version)}; expected ${MOTOR_SNAPSHOT_VERSION}.`,
+      );
+    }
+
+    this.config = { ...this.config, ...fromRecordedConfig(snapshot.config) };
+    this.setSprintMultiplier(decodeNumber(snapshot.sprintMultiplier));
+    this.crouchEnabled = snapshot.enableCrouch;
+    this.crouchHeight = this.computeCrouchHeight(decodeNumber(snapshot.crouchHeight));
+    this.crouchSpeedMultiplier = Math.max(0.01, decodeNumber(snapshot.crouchSpeedMultiplier));
+    this.maxStepHeight =
+      snapshot.maxStepHeight !== null ? decodeNumber(snapshot.maxStepHeight) : undefined;
+    this.maxSlopeAngle =
+      snapshot.maxSlopeAngle !== null
+        ? THREE.MathUtils.degToRad(decodeNumber(snapshot.maxSlopeAngle))
+        : undefined;
+
+    this.state.position.fromArray(snapshot.position);
+    this.state.velocity.fromArray(snapshot.velocity);
+    this.state.yaw = snapshot.yaw;
+    this.state.pitch = snapshot.pitch;
+    this.state.onGround = snapshot.onGround;
+    this.currentHeight = snapshot.height;
+    this.crouching = snapshot.crouching;
+    this.movementMode = snapshot.movementMode;
+    if (snapshot.stamina) {
+      this.stamina ??= new Stamina();
+      this.stamina.restore(snapshot.stamina);
+    } else {
+      this.stamina = undefined;
+    }
+    this.alignToGravity = snapshot.alignToGravity;
+    this.upAlignSpeed = Math.max(0, decodeNumber(snapshot.upAlignSpeed));
+    this.upQuaternion.fromArray(snapshot.upOrientation).normalize();
+    this.up.copy(WORLD_UP).applyQuaternion(this.upQuaternion);
+    this.ladderClimbSpeed = Math.max(0, decodeNumber(snapshot.ladderClimbSpeed));
+    this.ladderFacingAngle = THREE.MathUtils.degToRad(decodeNumber(snapshot.ladderFacingAngle));
+    this.ladderPushOff = Math.max(0, decodeNumber(snapshot.ladderPushOff));
+    this.ladderCooldown = Math.max(0, snapshot.ladderCooldown);
+    this.onLadder = false;
+    this.swimSpeed = Math.max(0, decodeNumber(snapshot.swimSpeed));
+    this.waterDrag = Math.max(0, decodeNumber(snapshot.waterDrag));
+    this.buoyancy = Math.max(0, decodeNumber(snapshot.buoyancy));
+    this.immersion = 0;
+    this.swimming = false;
+    this.underwater = false;
+    this.coyoteTime = Math.max(0, decodeNumber(snapshot.coyoteTime));
+    this.jumpBufferTime = Math.max(0, decodeNumber(snapshot.jumpBufferTime));
+    this.holdToJump = snapshot.holdToJump;
+    this.coyoteTimer = Math.max(0, snapshot.coyoteTimer);
+    this.jumpPressAge = snapshot.jumpPressAge;
+    this.jumpHeld = snapshot.jumpHeld;
+    this.jumpCutMultiplier = THREE.MathUtils.clamp(decodeNumber(snapshot.jumpCutMultiplier), 0, 1);
+    this.airJumps = Math.max(0, Math.floor(decodeNumber(snapshot.airJumps)));
+    this.airJumpSpeed =
+      snapshot.airJumpSpeed !== null ? decodeNumber(snapshot.airJumpSpeed) : undefined;
+    this.airJumpsUsed = Math.max(0, snapshot.airJumpsUsed);
+    this.jumpRising = snapshot.jumpRising;
+    this.slideFriction = Math.max(0, decodeNumber(snapshot.slideFriction));
+    this.uphillSpeedMultiplier = Math.max(0, decodeNumber(snapshot.uphillSpeedMultiplier));
+    this.downhillSpeedMultiplier = Math.max(0, decodeNumber(snapshot.downhillSpeedMultiplier));
+    this.sliding = snapshot.slideNormal !== undefined;
+    if (snapshot.slideNormal) {
+      this.slideNormal.fromArray(snapshot.slideNormal);
+    }
+    this.hasCollisionFloor = false;
+    this.collisionContacts.length = 0;
+    this.ceilingHeight = undefined;
+    this.headroomBlocked = false;
+    this.groundNormal.fromArray(snapshot.groundNormal);
+    this.groundObject = undefined;
+    this.groundSurface = undefined;
+    this.platform = undefined;
+    this.restoreGroundContact(snapshot.platform);
+  }
+
+  private applyInput(input: MotorInput): void {
+    this.move.x = input.move?.x ?? 0;
+    this.move.y = input.move?.y ?? 0;
+    this.actions.clear();
+    if (input.actions) {
+      for (const action of input.actions) {
+        this.actions.add(action);
+      }
+    }
+
+    if (input.yaw !== undefined) this.state.yaw = input.yaw;
+    if (input.pitch !== undefined) this.state.pitch = input.pitch;
+    if (input.crouch !== undefined) this.setCrouch(input.crouch);
+  }
+
+  private updateMovement(delta: number): void {
+    const state = this.state;
+    this.yawQuaternion.setFromAxisAngle(WORLD_UP, state.yaw).premultiply(this.upQuaternion);
+
+    this.forwardVector.set(0, 0, -1).applyQuaternion(this.yawQuaternion);
+    this.rightVector.set(1, 0, 0).applyQuaternion(this.yawQuaternion);
+
+    this.moveDirection.set(0, 0, 0);
+    this.moveDirection.addScaledVector(this.forwardVector, this.move.y);
+    this.moveDirection.addScaledVector(this.rightVector, this.move.x);
+
+    const config = this.config;
+    const vertical = state.velocity.dot(this.up);
+    const horizontal = this.horizontalVelocity
+      .copy(state.velocity)
+      .addScaledVector(this.up, -vertical);
+    const inputMagnitude = Math.min(1, this.moveDirection.length());
+
+    if (inputMagnitude > 0) {
+      this.moveDirection.normalize();
+      this.tempDisplacement
+        .copy(this.moveDirection)
+        .multiplyScalar(
+          this.getMoveSpeed() * inputMagnitude * this.getSlopeSpeedMultiplier(this.moveDirection),
+        );
+      const airControl = THREE.MathUtils.clamp(config.airControl, 0, 1);
+      const acceleration = state.onGround
+        ? config.groundAcceleration
+        : airControl > 0
+          ? config.airAcceleration * airControl
+          : 0;
+      this.approachVelocity(horizontal, this.tempDisplacement, acceleration, delta);
+    } else if (state.onGround) {
+      this.approachVelocity(
+        horizontal,
+        this.tempDisplacement.set(0, 0, 0),
+        config.groundDeceleration,
+        delta,
+      );
+    } else {
+      horizontal.multiplyScalar(Math.exp(-Math.max(0, config.airDrag) * delta));
+    }
+
+    if (horizontal.length() > config.maxHorizontalSpeed) {
+      horizontal.setLength(config.maxHorizontalSpeed);
+    }
+
+    state.velocity.copy(horizontal).addScaledVector(this.up, vertical);
+    state.position.addScaledVector(horizontal, delta);
+
+    if (this.jumpPressAge === undefined) {
+      return;
+    }
+
+    if (state.onGround || this.coyoteTimer > 0) {
+      setAlongAxis(state.velocity, this.up, this.config.jumpSpeed);
+      this.finishJump(0);
+    } else if (this.airJumpsUsed < this.airJumps) {
+      this.airJumpsUsed += 1;
+      setAlongAxis(state.velocity, this.up, this.airJumpSpeed ?? this.config.jumpSpeed);
+      this.finishJump(this.airJumpsUsed);
+    }
+  }
+
+  /**
+   * Sliding down a steep surface: gravity along the surface against Coulomb friction, while
+   * input only steers across the slope.
+   */
+  private updateSlide(delta: number): void {
+    const state = this.state;
+    const normal = this.slideNormal;
+    const gravity = this.getGravity();
+
+    state.velocity.addScaledVector(gravity, delta);
+    const into = state.velocity.dot(normal);
+    if (into < 0) {
+      state.velocity.addScaledVector(normal, -into);
+    }
+
+    const speed = state.velocity.length();
+    if (speed > 0) {
+      const friction = this.slideFriction * Math.max(0, -gravity.dot(normal)) * delta;
+      state.velocity.multiplyScalar(Math.max(0, speed - friction) / speed);
+    }
+
+    const across = this.slideAcross.crossVectors(normal, gravity);
+    if (across.lengthSq() > 1e-12) {
+      across.normalize();
+      this.yawQuaternion.setFromAxisAngle(WORLD_UP, state.yaw).premultiply(this.upQuaternion);
+      this.forwardVector.set(0, 0, -1).applyQuaternion(this.yawQuaternion);
+      this.rightVector.set(1, 0, 0).applyQuaternion(this.yawQuaternion);
+      this.moveDirection.set(0, 0, 0);
+      this.moveDirection.addScaledVector(this.forwardVector, this.move.y);
+      this.moveDirection.addScaledVector(this.rightVector, this.move.x);
+      if (this.moveDirection.lengthSq() > 1) {
+        this.moveDirection.normalize();
+      }
+
+      const current = state.velocity.dot(across);
+      const target = this.moveDirection.dot(across) * this.getMoveSpeed();
+      const airControl = THREE.MathUtils.clamp(this.config.airControl, 0, 1);
+      const acceleration = airControl > 0 ? this.config.airAcceleration * airControl : 0;
+      const maxChange = Math.max(0, acceleration) * delta;
+      const change = THREE.MathUtils.clamp(target - current, -maxChange, maxChange);
+      state.velocity.addScaledVector(across, change);
+    }
+
+    state.position.addScaledVector(state.velocity, delta);
+  }
+
+  private finishJump(index: number): void {
+    this.state.onGround = false;
+    this.jumpPressAge = undefined;
+    this.coyoteTimer = 0;
+    this.jumpRising = true;
+    this.stamina?.spendJump();
+    this.jumpCallback?.({ index, velocity: this.state.velocity.clone() });
+  }
+
+  /**
+   * Buffers new jump presses (every held step with `holdToJump`) for `jumpBufferTime`, keeps
+   * the coyote window open for `coyoteTime` after the ground was last touched and cuts a
+   * rising jump short once jump is released.
+   */
+  private updateJumpInput(delta: number): void {
+    if (this.jumpPressAge !== undefined) {
+      this.jumpPressAge += delta;
+      if (this.jumpPressAge > this.jumpBufferTime) {
+        this.jumpPressAge = undefined;
+      }
+    }
+
+    const pressed = this.actions.has("jump");
+    if (pressed && (this.holdToJump || !this.jumpHeld)) {
+      this.jumpPressAge = 0;
+    }
+    this.jumpHeld = pressed;
+
+    if (this.jumpRising) {
+      const rising = this.state.velocity.dot(this.up);
+      if (this.state.onGround || rising <= 0) {
+        this.jumpRising = false;
+      } else if (!pressed) {
+        setAlongAxis(this.state.velocity, this.up, rising * this.jumpCutMultiplier);
+        this.jumpRising = false;
+      }
+    }
+
+    if (this.state.onGround) {
+      this.coyoteTimer = this.coyoteTime;
+      this.airJumpsUsed = 0;
+    } else {
+      this.coyoteTimer = Math.max(0, this.coyoteTimer - delta);
+    }
+  }
+
+  /**
+   * Finds a ladder volume that contains the feet and that the player faces. Remembers the
+   * horizontal direction towards it and the height of its top along the up axis.
+   */
+  private updateLadder(delta: number): void {
+    this.ladderCooldown = Math.max(0, this.ladderCooldown - delta);
+    this.onLadder = false;
+
+    if (this.movementMode !== "walk" || this.ladders.length === 0 || this.ladderCooldown > 0) {
+      return;
+    }
+
+    const up = this.up;
+    const feet = this.feetPoint.copy(this.state.position).addScaledVector(up, -this.currentHeight);
+    this.yawQuaternion.setFromAxisAngle(WORLD_UP, this.state.yaw).premultiply(this.upQuaternion);
+    const forward = this.forwardVector.set(0, 0, -1).applyQuaternion(this.yawQuaternion);
+    const minFacing = Math.cos(this.ladderFacingAngle);
+
+    for (const ladder of this.ladders) {
+      const box =
+        ladder.volume instanceof THREE.Box3
+          ? this.ladderBox.copy(ladder.volume)
+          : this.ladderBox.setFromObject(ladder.volume);
+      box.expandByScalar(LADDER_MARGIN);
+      if (!box.containsPoint(feet)) {
+        continue;
+      }
+
+      const toward = ladder.normal
+        ? this.ladderToward.copy(ladder.normal).negate()
+        : box.getCenter(this.ladderToward).sub(feet);
+      toward.addScaledVector(up, -toward.dot(up));
+      if (toward.lengthSq() < 1e-8) {
+        toward.copy(forward);
+      } else if (forward.dot(toward.normalize()) < minFacing) {
+        continue;
+      }
+
+      this.ladderTop = boxTopAlong(box, up);
+      this.onLadder = true;
+      return;
+    }
+  }
+
+  /** Ladder movement: forward/back climbs, strafe slides sideways and jump pushes off. */
+  private updateClimb(delta: number): void {
+    const state = this.state;
+
+    this.airJumpsUsed = 0;
+    if (this.jumpPressAge !== undefined) {
+      state.velocity
+        .copy(this.ladderToward)
+        .multiplyScalar(-this.ladderPushOff)
+        .addScaledVector(this.up, this.config.jumpSpeed * 0.5);
+      state.position.addScaledVector(state.velocity, delta);
+      this.onLadder = false;
+      this.ladderCooldown = LADDER_DETACH_TIME;
+      this.finishJump(0);
+      return;
+    }
+
+    this.rightVector.set(1, 0, 0).applyQuaternion(this.yawQuaternion);
+    const inputLength = Math.hypot(this.move.x, this.move.y);
+    const speed = this.ladderClimbSpeed / Math.max(1, inputLength);
+    state.velocity
+      .copy(this.rightVector)
+      .multiplyScalar(this.move.x * speed)
+      .addScaledVector(this.up, this.move.y * speed);
+
+    const feetHeight = state.position.dot(this.up) - this.currentHeight;
+    if (this.move.y > 0 && this.ladderTop - feetHeight < LADDER_DISMOUNT_ZONE) {
+      state.velocity.addScaledVector(this.ladderToward, this.move.y * speed);
+    }
+
+    state.position.addScaledVector(state.velocity, delta);
+  }
+
+  /** Measures how deep the body is in the deepest water volume around the feet. */
+  private updateWater(): void {
+    this.immersion = 0;
+    this.swimming = false;
+    this.underwater = false;
+
+    if (this.movementMode !== "walk" || this.waters.length === 0) {
+      return;
+    }
+
+    const eyeHeight = this.state.position.dot(this.up);
+    const feetHeight = eyeHeight - this.currentHeight;
+    const feet = this.feetPoint
+      .copy(this.state.position)
+      .addScaledVector(this.up, -this.currentHeight);
+
+    for (const water of this.waters) {
+      let surface: number | null;
+      if (water instanceof THREE.Box3) {
+        surface = water.containsPoint(feet) ? boxTopAlong(water, this.up) : null;
+      } else {
+        surface = water(feet.clone());
+      }
+
+      if (surface === null || surface <= feetHeight) {
+        continue;
+      }
+
+      const depth = Math.min(1, (surface - feetHeight) / Math.max(this.currentHeight, 1e-3));
+      this.immersion = Math.max(this.immersion, depth);
+      this.underwater ||= surface > eyeHeight;
+    }
+
+    this.swimming = this.immersion >= SWIM_IMMERSION;
+  }
+
+  /**
+   * Swimming: water drag eases the velocity towards `swimSpeed` along the full view direction. Gravity is offset by buoyancy in proportion to the immersion.
+   */
+  private updateSwim(delta: number): void {
+    const state = this.state;
+    this.lookEuler.set(state.pitch, state.yaw, 0);
+    this.lookQuaternion.setFromEuler(this.lookEuler).premultiply(this.upQuaternion);
+
+    this.forwardVector.set(0, 0, -1).applyQuaternion(this.lookQuaternion);
+    this.rightVector.set(1, 0, 0).applyQuaternion(this.lookQuaternion);
+    const rise =
+      (this.actions.has("jump") || this.actions.has("ascend") ? 1 : 0) -
+      (this.actions.has("descend") ? 1 : 0);
+
+    this.moveDirection.set(0, 0, 0);
+    this.moveDirection.addScaledVector(this.forwardVector, this.move.y);
+    this.moveDirection.addScaledVector(this.rightVector, this.move.x);
+    this.moveDirection.addScaledVector(this.up, rise);
+
+    const inputMagnitude = Math.min(1, this.moveDirection.length());
+    const decay = Math.exp(-this.waterDrag * delta);
+    state.velocity.multiplyScalar(decay);
+    if (inputMagnitude > 0) {
+      state.velocity.addScaledVector(
+        this.moveDirection.normalize(),
+        this.swimSpeed * inputMagnitude * (1 - decay),
+      );
+    }
+
+    const gravity = this.getGravity();
+    state.velocity.addScaledVector(gravity, delta);
+    state.velocity.addScaledVector(
+      this.up,
+      -gravity.dot(this.up) * this.buoyancy * this.immersion * delta,
+    );
+    state.position.addScaledVector(state.velocity, delta);
+  }
+
+  /** Fly/noclip: move along the view direction without gravity; jump is ignored. */
+  private updateFlight(delta: number): void {
+    const state = this.state;
+    this.lookEuler.set(state.pitch, state.yaw, 0);
+    this.lookQuaternion.setFromEuler(this.lookEuler).premultiply(this.upQuaternion);
+
+    this.forwardVector.set(0, 0, -1).applyQuaternion(this.lookQuaternion);
+    this.rightVector.set(1, 0, 0).applyQuaternion(this.lookQuaternion);
+    const vertical = (this.actions.has("ascend") ? 1 : 0) - (this.actions.has("descend") ? 1 : 0);
+
+    this.moveDirection.set(0, 0, 0);
+    this.moveDirection.addScaledVector(this.forwardVector, this.move.y);
+    this.moveDirection.addScaledVector(this.rightVector, this.move.x);
+    this.moveDirection.addScaledVector(this.up, vertical);
+
+    const inputMagnitude = Math.min(1, this.moveDirection.length());
+    const target = this.tempDisplacement.set(0, 0, 0);
+    if (inputMagnitude > 0) {
+      target
+        .copy(this.moveDirection.normalize())
+        .multiplyScalar(this.getMoveSpeed() * inputMagnitude);
+    }
+
+    const rate =
+      inputMagnitude > 0 ? this.config.groundAcceleration : this.config.groundDeceleration;
+    const maxChange = Math.max(0, rate) * delta;
+    const change = this.velocityChange.subVectors(target, state.velocity);
+    const distance = change.length();
+
+    if (distance <= maxChange) {
+      state.velocity.copy(target);
+    } else {
+      state.velocity.addScaledVector(change, maxChange / distance);
+    }
+
+    state.position.addScaledVector(state.velocity, delta);
+    state.onGround = false;
+  }
+
+  private applyGravity(delta: number): void {
+    if (delta <= 0) {
+      return;
+    }
+
+    this.state.velocity.addScaledVector(this.getGravity(), delta);
+    this.state.position.addScaledVector(this.up, this.state.velocity.dot(this.up) * delta);
+  }
+
+  private getGravity(): THREE.Vector3 {
+    return this.gravityFn
+      ? this.gravityFn(this.state.position.clone())
+      : this.gravityCache.set(0, -this.config.gravity, 0);
+  }
+
+  /** Eases the up axis towards the opposite of gravity when `alignToGravity` is on. */
+  private updateUp(delta: number): void {
+    if (!this.alignToGravity) {
+      return;
+    }
+
+    const gravity = this.getGravity();
+    if (gravity.lengthSq() < 1e-12) {
+      return;
+    }
+
+    this.targetUp.copy(gravity).negate().normalize();
+    if (this.up.dot(this.targetUp) > 1 - 1e-10) {
+      return;
+    }
+
+    this.upTurn.setFromUnitVectors(this.up, this.targetUp);
+    this.upTurn.slerp(IDENTITY, Math.exp(-this.upAlignSpeed * delta));
+    this.turnUp(this.upTurn);
+  }
+
+  private turnUp(rotation: THREE.Quaternion): void {
+    this.upQuaternion.premultiply(rotation).normalize();
+    this.up.copy(WORLD_UP).applyQuaternion(this.upQuaternion);
+  }
+
+  private resolveCollisions(): void {
+    this.collisionContacts.length = 0;
+    this.hasCollisionFloor = false;
+
+    if (!this.collider) {
+      return;
+    }
+
+    this.collisionDisplacement.subVectors(this.state.position, this.previousPosition);
+    this.state.position.copy(this.previousPosition);
+    this.collider.move(
+      this.state.position,
+      this.collisionDisplacement,
+      this.currentHeight,
+      this.collisionContacts,
+      this.up,
+    );
+
+    if (this.collisionContacts.length === 0) {
+      return;
+    }
+
+    const floorCos = Math.cos(
+      this.maxSlopeAngle ?? THREE.MathUtils.degToRad(DEFAULT_WALKABLE_SLOPE_ANGLE),
+    );
+    let bestFloorDot = floorCos;
+
+    for (const contact of this.collisionContacts) {
+      const into = this.state.velocity.dot(contact.normal);
+      if (into < 0) {
+        this.state.velocity.addScaledVector(contact.normal, -into);
+      }
+
+      const floorDot = contact.normal.dot(this.up);
+      if (floorDot >= bestFloorDot) {
+        bestFloorDot = floorDot;
+        this.collisionFloorNormal.copy(contact.normal);
+        this.hasCollisionFloor = true;
+      }
+    }
+
+    this.collisionCallback?.(this.getCollisionContacts());
+  }
+
+  private resolveGround(delta: number): void {
+    const result = this.runGroundCheck(delta);
+    let onGround = result.onGround;
+    const normal = result.groundNormal ? result.groundNormal.clone().normalize() : null;
+
+    let steep = false;
+    if (onGround && this.maxSlopeAngle !== undefined && normal) {
+      const angle = this.up.angleTo(normal);
+      if (angle > this.maxSlopeAngle) {
+        onGround = false;
+        steep = true;
+      }
+    }
+
+    this.sliding = false;
+    if (onGround || (steep && this.state.velocity.dot(this.up) <= 0)) {
+      const desiredHeight = result.groundHeight + this.currentHeight;
+      const diff = desiredHeight - this.state.position.dot(this.up);
+
+      if (this.maxStepHeight !== undefined && Math.abs(diff) > this.maxStepHeight) {
+        onGround = false;
+      } else if (!onGround && normal) {
+        // Too steep to stand on: stay on the surface, drop any motion into it or up it, and
+        // slide down it next step.
+        setAlongAxis(this.state.position, this.up, desiredHeight);
+        const velocity = this.state.velocity;
+        const into = velocity.dot(normal);
+        if (into < 0) {
+          velocity.addScaledVector(normal, -into);
+        }
+        const uphill = this.slideUphill.copy(this.up).addScaledVector(normal, -normal.dot(this.up));
+        if (uphill.lengthSq() > 1e-12) {
+          const climb = velocity.dot(uphill.normalize());
+          if (climb > 0) {
+            velocity.addScaledVector(uphill, -climb);
+          }
+        }
+        this.sliding = true;
+        this.slideNormal.copy(normal);
+      } else {
+        setAlongAxis(this.state.position, this.up, desiredHeight);
+        if (this.state.velocity.dot(this.up) < 0) {
+          setAlongAxis(this.state.velocity, this.up, 0);
+        }
+        this.state.onGround = true;
+        this.groundNormal.copy(normal ?? this.up);
+        this.groundObject = result.groundObject;
+        this.groundSurface = result.surface;
+        if (result.groundObject !== this.platform) {
+          this.attachPlatform(result.groundObject);
+        }
+        return;
+      }
+    }
+
+    this.state.onGround = false;
+    if (this.platform) {
+      this.state.velocity.add(this.platformVelocity);
+      this.platform = undefined;
+    }
+  }
+
+  /** Scene objects are not stored, so the ground check finds the ground object again. */
+  private restoreGroundContact(platform: CharacterMotorSnapshot["platform"]): void {
+    if (!this.state.onGround || this.movementMode !== "walk") {
+      return;
+    }
+
+    const result = this.runGroundCheck(0);
+    if (!result.onGround) {
+      return;
+    }
+
+    this.groundObject = result.groundObject;
+    this.groundSurface = result.surface;
+    this.attachPlatform(result.groundObject);
+    if (this.platform && platform) {
+      this.platformVelocity.fromArray(platform.velocity);
+      this.platformElapsed = platform.elapsed;
+      this.platformInterval = platform.interval;
+    }
+  }
+
+  private attachPlatform(object: THREE.Object3D | undefined): void {
+    this.platform = object;
+    this.platformVelocity.set(0, 0, 0);
+    this.platformElapsed = 0;
+    this.platformInterval = 0;
+    if (object) {
+      object.updateWorldMatrix(true, false);
+      this.platformMatrix.copy(object.matrixWorld);
+    }
+  }
+
+  /**
+   * Carries the character along with the ground object's movement since the last step:
+   * position by its full transform and yaw by its turn about the up axis.
+   */
+  private updatePlatform(delta: number): void {
+    const platform = this.platform;
+    if (!platform) {
+      return;
+    }
+
+    platform.updateWorldMatrix(true, false);
+    this.platformElapsed += delta;
+    if (platform.matrixWorld.equals(this.platformMatrix)) {
+      // Objects moved once per rendered frame stay put between fixed sub-steps.
+      if (this.platformElapsed > this.platformInterval) {
+        this.platformVelocity.set(0, 0, 0);
+      }
+      return;
+    }
+
+    this.platformDelta.copy(this.platformMatrix).invert().premultiply(platform.matrixWorld);
+    this.platformMatrix.copy(platform.matrixWorld);
+
+    const position = this.state.position;
+    this.carriedPosition.copy(position).applyMatrix4(this.platformDelta);
+    this.platformVelocity
+      .subVectors(this.carriedPosition, position)
+      .divideScalar(this.platformElapsed);
+    position.copy(this.carriedPosition);
+
+    this.platformDelta.decompose(this.platformOffset, this.platformTurn, this.platformScale);
+    const turn = this.platformTurn;
+    const sign = turn.w < 0 ? -1 : 1;
+    const twist = turn.x * this.up.x + turn.y * this.up.y + turn.z * this.up.z;
+    this.state.yaw += 2 * Math.atan2(twist * sign, turn.w * sign);
+
+    this.platformInterval = this.platformElapsed;
+    this.platformElapsed = 0;
+  }
+
+  private runGroundCheck(delta: number): GroundResult {
+    this.ceilingHeight = undefined;
+
+    if (this.hasCollisionFloor) {
+      return {
+        onGround: true,
+        groundNormal: this.collisionFloorNormal.clone(),
+        groundHeight: this.state.position.dot(this.up) - this.currentHeight,
+      };
+    }
+
+    if (this.groundCheckFn) {
+      const result = this.groundCheckFn(
+        this.getState(),
+        delta,
+        this.currentHeight,
+        this.up.clone(),
+      );
+      this.ceilingHeight = result.ceilingHeight;
+      return {
+        onGround: result.onGround,
+        groundNormal: result.groundNormal,
+        groundHeight: result.groundHeight ?? result.groundPoint?.dot(this.up) ?? 0,
+        groundObject: result.groundObject,
+        surface: result.surface,
+      };
+    }
+
+    const grounded = this.state.position.dot(this.up) <= this.currentHeight;
+    return {
+      onGround: grounded,
+      groundNormal: grounded ? this.up.clone() : null,
+      groundHeight: 0,
+    };
+  }
+
+  private approachVelocity(
+    current: THREE.Vector3,
+    target: THREE.Vector3,
+    rate: number,
+    delta: number,
+  ): void {
+    const maxChange = Math.max(0, rate) * delta;
+    const change = this.velocityChange.subVectors(target, current);
+    const distance = change.length();
+
+    if (distance <= maxChange) {
+      current.copy(target);
+      return;
+    }
+
+    current.addScaledVector(change, maxChange / distance);
+  }
+
+  /**
+   * Scales walking speed on slopes: towards `uphillSpeedMultiplier`/`downhillSpeedMultiplier`
+   * as the incline along `direction` approaches the steepest walkable angle.
+   */
+  private getSlopeSpeedMultiplier(direction: THREE.Vector3): number {
+    if (
+      !this.state.onGround ||
+      (this.uphillSpeedMultiplier === 1 && this.downhillSpeedMultiplier === 1)
+    ) {
+      return 1;
+    }
+
+    const normal = this.groundNormal;
+    const upness = normal.dot(this.up);
+    if (upness <= 1e-6) {
+      return 1;
+    }
+
+    const incline = Math.atan(-direction.dot(normal) / upness);
+    const limit = this.maxSlopeAngle ?? THREE.MathUtils.degToRad(DEFAULT_WALKABLE_SLOPE_ANGLE);
+    const t = THREE.MathUtils.clamp(Math.abs(incline) / Math.max(limit, 1e-6), 0, 1);
+    const multiplier = incline > 0 ? this.uphillSpeedMultiplier : this.downhillSpeedMultiplier;
+    return THREE.MathUtils.lerp(1, multiplier, t);
+  }
+
+  private getMoveSpeed(): number {
+    let speed = this.config.moveSpeed;
+
+    if (this.actions.has("sprint") && (this.stamina?.canSprint() ?? true)) {
+      speed *= this.sprintMultiplier;
+    }
+
+    if (this.crouchEnabled && (this.crouching || this.headroomBlocked)) {
+      speed *= this.crouchSpeedMultiplier;
+    }
+
+    return speed;
+  }
+
+  private updateHeight(delta: number): void {
+    const targetHeight =
+      this.crouching && this.crouchEnabled ? this.crouchHeight : this.config.height;
+    const previousHeight = this.currentHeight;
+    const alpha = Math.min(1, delta * this.heightLerpSpeed);
+    this.currentHeight = THREE.MathUtils.lerp(this.currentHeight, targetHeight, alpha);
+    if (Math.abs(this.currentHeight - targetHeight) < 0.001) {
+      this.currentHeight = targetHeight;
+    }
+    this.headroomBlocked =
+      this.currentHeight > previousHeight && !this.limitToHeadroom(previousHeight);
+
+    // Keep the feet planted so crouching works on any floor, not just y = 0.
+    if (this.state.onGround) {
+      this.state.position.addScaledVector(this.up, this.currentHeight - previousHeight);
+    }
+  }
+
+  /**
+   * Undoes (part of) this step's growth when the head would reach a ceiling reported by the
+   * ground check or the collision world. Returns false if standing up was held back.
+   */
+  private limitToHeadroom(previousHeight: number): boolean {
+    const feet = this.state.position.dot(this.up) - previousHeight;
+
+    if (this.ceilingHeight !== undefined && feet + this.currentHeight > this.ceilingHeight) {
+      this.currentHeight = Math.max(previousHeight, this.ceilingHeight - feet);
+      return false;
+    }
+
+    if (
+      this.collider &&
+      !this.collider.hasHeadroom(this.state.position, previousHeight, this.currentHeight, this.up)
+    ) {
+      this.currentHeight = previousHeight;
+      return false;
+    }
+
+    return true;
+  }
+
+  private computeCrouchHeight(value?: number): number {
+    const base = value ?? this.config.height * DEFAULT_CROUCH_HEIGHT_RATIO;
+    return THREE.MathUtils.clamp(base, MIN_CROUCH_HEIGHT, this.config.height);
+  }
+}
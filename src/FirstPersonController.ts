@@ -2,73 +2,134 @@ import * as THREE from "three";
 
 import {
   DEFAULT_KEY_BINDINGS,
-  DEFAULT_LOOK_SENSITIVITY,
+  CONTROLLER_SNAPSHOT_VERSION,
+  DEFAULT_CORRECTION_SMOOTHING,
+  DEFAULT_CORRECTION_SNAP_DISTANCE,
+  DEFAULT_MAX_PENDING_COMMANDS,
+  DEFAULT_MAX_SUB_STEPS,
   DEFAULT_MAX_PITCH,
-  DEFAULT_PLAYER_CONFIG,
-  DEFAULT_SPRINT_MULTIPLIER,
-  DEFAULT_CROUCH_HEIGHT_RATIO,
-  DEFAULT_CROUCH_SPEED_MULTIPLIER,
+  MOVEMENT_ACTIONS,
 } from "./constants.js";
 import type {
+  ActionMode,
+  CameraEffectsOptions,
+  CollisionContact,
+  CollisionOptions,
+  ControllerEventListener,
+  ControllerEventMap,
+  ControllerSnapshot,
   ControllerState,
   FirstPersonControllerOptions,
-  GravityFn,
-  GroundCheckFn,
+  FootstepOptions,
+  GamepadOptions,
+  InputCommand,
+  InputRecording,
+  InputSource,
+  InputVector,
+  JumpCallback,
   KeyBindingsOverrides,
+  LadderOptions,
+  LadderVolume,
   PlayerConfig,
   LookChangeCallback,
+  MouseLookOptions,
+  MotorInput,
+  MovementAction,
+  MovementMode,
+  PredictionOptions,
+  StaminaOptions,
+  StaminaState,
+  TouchControlsOptions,
+  WaterVolume,
 } from "./types.js";
-import { KeyboardControls } from "./input/KeyboardControls.js";
+import { CharacterMotor } from "./CharacterMotor.js";
+import { CameraEffects } from "./camera/CameraEffects.js";
+import { EventEmitter } from "./events/EventEmitter.js";
+import { GamepadControls } from "./input/GamepadControls.js";
+import { KeyboardMouseInput } from "./input/KeyboardMouseInput.js";
+import { MouseLook } from "./input/MouseLook.js";
 import { PointerLockManager } from "./input/PointerLockManager.js";
+import { TouchControls } from "./input/TouchControls.js";
+import { Footsteps } from "./movement/Footsteps.js";
+import {
+  InputRecorder,
+  InputReplay,
+  decodeActions,
+  encodeActions,
+} from "./replay/InputRecording.js";
+import { InputCommandBuffer } from "./network/InputCommandBuffer.js";
+import type { PredictedState } from "./network/InputCommandBuffer.js";
+import { decodeNumber, encodeNumber } from "./utils/encoding.js";
+import { hasOwn } from "./utils/hasOwn.js";
+
+interface PredictionState {
+  buffer: InputCommandBuffer;
+  onInputCommand: ((command: InputCommand) => void) | undefined;
+  correctionSmoothing: number;
+  snapDistance: number;
+}
 
-const MIN_CROUCH_HEIGHT = 0.3;
-
-const hasOwn = <T extends object, K extends keyof T>(obj: T, key: K): boolean =>
-  Object.prototype.hasOwnProperty.call(obj, key);
+// Ground movement below this per tick counts as standing still for footsteps.
+const MIN_FOOTSTEP_TRAVEL = 1e-4;
 
+/**
+ * Browser wrapper around `CharacterMotor`: gathers keyboard/mouse, gamepad and touch input,
+ * handles pointer lock and drives the camera. All movement rules live in the motor.
+ */
 export class FirstPersonController {
   private readonly camera: THREE.PerspectiveCamera;
   private readonly domElement: HTMLElement;
-  private readonly keyboard: KeyboardControls;
+  private readonly keyboardMouse: KeyboardMouseInput;
+  private readonly inputSources: InputSource[] = [];
   private readonly pointerLock: PointerLockManager;
-
-  private readonly state: ControllerState = {
-    position: new THREE.Vector3(),
-    velocity: new THREE.Vector3(),
-    yaw: 0,
-    pitch: 0,
-    onGround: true,
-  };
-
-  private config: PlayerConfig;
-  private lookSensitivity: number;
+  private gamepad: GamepadControls | undefined;
+  private touch: TouchControls | undefined;
+  private cameraEffects: CameraEffects | undefined;
+  private readonly effectsOffset = new THREE.Vector3();
+  private readonly events = new EventEmitter<ControllerEventMap>();
+  private readonly footsteps = new Footsteps();
+  private readonly stepTravel = new THREE.Vector3();
+  private readonly upAxis = new THREE.Vector3();
+  private crouched = false;
+  private sprinting = false;
+  private swimming = false;
+  private underwater = false;
+  private readonly upOrientation = new THREE.Quaternion();
+  private readonly localOrientation = new THREE.Quaternion();
+  private crouchMode: ActionMode = "hold";
+  private sprintMode: ActionMode = "hold";
+  private crouchHeld = false;
+  private sprintHeld = false;
+  private sprintToggled = false;
+  private wasMoving = false;
+  private readonly frameMove: InputVector = { x: 0, y: 0 };
+  private readonly frameActions = new Set<MovementAction>();
+  private recorder: InputRecorder | undefined;
+  private replayer: InputReplay | undefined;
+  private replayCompleteCallback: (() => void) | undefined;
+  private prediction: PredictionState | undefined;
+  private lastProcessedInput = 0;
+  private resimulating = false;
+  private readonly correctionOffset = new THREE.Vector3();
+  private readonly reconcileShift = new THREE.Vector3();
+
+  private readonly motor: CharacterMotor;
+  private readonly mouseLook = new MouseLook();
   private maxPitch: number;
-  private sprintMultiplier: number;
   private fieldOfView: number;
   private lookOnly: boolean;
   private pointerLockChangeCallback: ((locked: boolean) => void) | undefined;
   private pointerLockToggleCallback: ((locked: boolean) => void) | undefined;
   private lookChangeCallback: LookChangeCallback | undefined;
-  private jumpCallback: (() => void) | undefined;
-  private gravityFn: GravityFn | undefined;
-  private groundCheckFn: GroundCheckFn | undefined;
-  private crouchEnabled: boolean;
-  private isCrouching = false;
-  private crouchHeight: number;
-  private crouchSpeedMultiplier: number;
-  private currentHeight: number;
-  private maxStepHeight: number | undefined;
-  private maxSlopeAngle: number | undefined;
+  private jumpCallback: JumpCallback | undefined;
   private initialPosition: THREE.Vector3;
+  private fixedTimeStep: number | undefined;
+  private maxSubSteps = DEFAULT_MAX_SUB_STEPS;
+  private accumulator = 0;
+  private interpolationAlpha = 1;
+  private readonly interpolationStart = new THREE.Vector3();
+  private readonly simulatedPosition = new THREE.Vector3();
   private readonly tempEuler = new THREE.Euler(0, 0, 0, "YXZ");
-  private readonly yawQuaternion = new THREE.Quaternion();
-  private readonly forwardVector = new THREE.Vector3();
-  private readonly rightVector = new THREE.Vector3();
-  private readonly moveDirection = new THREE.Vector3();
-  private readonly upVector = new THREE.Vector3(0, 1, 0);
-  private readonly tempDisplacement = new THREE.Vector3();
-  private readonly gravityCache = new THREE.Vector3();
-  private readonly heightLerpSpeed = 10;
   private disposed = false;
 
   private readonly onClickHandler = (): void => {
@@ -85,30 +146,16 @@ export class FirstPersonController {
     this.pointerLock.requestLock();
   };
 
-  private readonly onMouseMoveHandler = (event: MouseEvent): void => {
-    if (this.disposed) {
-      return;
+  private readonly canMouseLook = (event: MouseEvent): boolean => {
+    if (this.disposed || this.replayer || !this.inputSources.includes(this.keyboardMouse)) {
+      return false;
     }
 
     if (this.pointerLock.isEnabled()) {
-      if (this.pointerLock.isSupported() && !this.pointerLock.isLocked()) {
-        return;
-      }
-    } else if (
-      event.target !== this.domElement &&
-      !this.domElement.contains(event.target as Node)
-    ) {
-      return;
+      return !this.pointerLock.isSupported() || this.pointerLock.isLocked();
     }
 
-    this.state.yaw -= event.movementX * this.lookSensitivity;
-    this.state.pitch = THREE.MathUtils.clamp(
-      this.state.pitch - event.movementY * this.lookSensitivity,
-      -this.maxPitch,
-      this.maxPitch,
-    );
-    this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
-    this.notifyLookChange();
+    return event.target === this.domElement || this.domElement.contains(event.target as Node);
   };
 
   constructor(camera: THREE.PerspectiveCamera, options: FirstPersonControllerOptions) {
@@ -124,32 +171,28 @@ export class FirstPersonController {
       this.domElement.tabIndex = 0;
     }
 
-    this.config = { ...DEFAULT_PLAYER_CONFIG };
-    this.lookSensitivity = DEFAULT_LOOK_SENSITIVITY;
+    this.motor = new CharacterMotor();
+    this.motor.setJumpCallback((event) => {
+      if (!this.resimulating) {
+        this.jumpCallback?.(event);
+        this.events.emit("jump", event);
+      }
+    });
     this.maxPitch = DEFAULT_MAX_PITCH;
-    this.sprintMultiplier = DEFAULT_SPRINT_MULTIPLIER;
     this.fieldOfView = options.fieldOfView ?? camera.fov;
     this.lookOnly = options.lookOnly ?? false;
     this.pointerLockChangeCallback = options.onPointerLockChange ?? undefined;
     this.pointerLockToggleCallback = options.onPointerLockToggle ?? undefined;
     this.lookChangeCallback = options.onLookChange ?? undefined;
     this.jumpCallback = options.onJump ?? undefined;
-    this.gravityFn = options.gravityFn ?? undefined;
-    this.groundCheckFn = options.groundCheckFn ?? undefined;
-    this.crouchEnabled = options.enableCrouch ?? false;
-    this.crouchSpeedMultiplier = options.crouchSpeedMultiplier ?? DEFAULT_CROUCH_SPEED_MULTIPLIER;
-    this.crouchHeight = this.computeCrouchHeight(options.crouchHeight);
-    this.currentHeight = this.config.height;
-    this.maxStepHeight =
-      options.maxStepHeight !== undefined ? Math.max(0, options.maxStepHeight) : undefined;
-    this.maxSlopeAngle =
-      options.maxSlopeAngle !== undefined
-        ? THREE.MathUtils.degToRad(Math.max(0, Math.min(89.9, options.maxSlopeAngle)))
-        : undefined;
-    this.initialPosition =
-      options.initialPosition?.clone() ?? new THREE.Vector3(0, this.config.height, -5);
 
-    this.keyboard = new KeyboardControls(DEFAULT_KEY_BINDINGS, this.domElement);
+    this.keyboardMouse = new KeyboardMouseInput(this.domElement, {
+      bindings: DEFAULT_KEY_BINDINGS,
+      mouseLook: this.mouseLook,
+      canLook: this.canMouseLook,
+      onLook: () => this.applyMouseLook(),
+    });
+    this.inputSources.push(this.keyboardMouse);
     this.pointerLock = new PointerLockManager(this.domElement, {
       enabled: options.enablePointerLock ?? true,
       autoLock: options.autoPointerLock ?? true,
@@ -157,6 +200,8 @@ export class FirstPersonController {
     });
 
     this.applyOptions(options);
+    this.initialPosition =
+      options.initialPosition?.clone() ?? new THREE.Vector3(0, this.motor.getHeight(), -5);
     this.initializeCamera();
     this.initializeListeners();
   }
@@ -166,72 +211,261 @@ export class FirstPersonController {
       return;
     }
 
-    if (this.lookOnly) {
-      this.applyToCamera(this.camera, { includePosition: false });
-      return;
+    const replayDelta = this.replayer ? this.applyReplayFrame() : undefined;
+    const delta = replayDelta ?? Math.max(0, deltaSeconds);
+    if (replayDelta === undefined) {
+      this.pollInputSources(delta);
+      this.recordFrame(delta);
     }
 
-    const delta = Math.max(0, deltaSeconds);
+    this.decayCorrection(delta);
+    this.step(delta);
 
-    // Skip update if delta is too small to prevent numerical instability
-    if (delta < 1e-6) {
-      return;
+    if (this.replayer?.isFinished()) {
+      this.finishReplay();
     }
-
-    this.updateHeight(delta);
-    this.updateMovement(delta);
-    this.applyGravity(delta);
-    this.resolveGround(delta);
-    this.applyToCamera(this.camera);
   }
 
   updateOptions(options: FirstPersonControllerOptions): void {
-    this.applyOptions(options);
+    this.recorder?.recordOptions(options);
+    this.withoutRecording(() => this.applyOptions(options));
   }
 
   setMovementConfig(config: Partial<PlayerConfig>): void {
-    this.config = { ...this.config, ...config };
-    this.crouchHeight = this.computeCrouchHeight(this.crouchHeight);
-    this.currentHeight =
-      this.isCrouching && this.crouchEnabled ? this.crouchHeight : this.config.height;
-    if (this.state.position.y < this.currentHeight) {
-      this.state.position.y = this.currentHeight;
+    this.recorder?.recordOptions(config);
+    this.motor.setMovementConfig(config);
+  }
+
+  /** Switches between `walk`, `fly` and `noclip`, keeping position and look. */
+  setMovementMode(mode: MovementMode): void {
+    this.recorder?.recordOptions({ movementMode: mode });
+    this.motor.setMovementMode(mode);
+  }
+
+  getMovementMode(): MovementMode {
+    return this.motor.getMovementMode();
+  }
+
+  /** The current up axis; differs from world y only with `alignToGravity`. */
+  getUp(target: THREE.Vector3): THREE.Vector3 {
+    return this.motor.getUp(target);
+  }
+
+  /** The DOM-free movement core this controller drives. */
+  getMotor(): CharacterMotor {
+    return this.motor;
+  }
+
+  /**
+   * Starts capturing every `update()` (delta, merged input, look angles and crouch state)
+   * plus option and movement setting changes into a JSON-serialisable log. Collision worlds,
+   * stamina, ladders, water and custom gravity or ground checks cannot be stored; changing
+   * them while recording makes the recording unreplayable.
+   */
+  startRecording(): void {
+    this.recorder = new InputRecorder(this.serialize());
+  }
+
+  stopRecording(): InputRecording | undefined {
+    const recording = this.recorder?.finish();
+    this.recorder = undefined;
+    return recording;
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== undefined;
+  }
+
+  /**
+   * Restores the recorded starting state and drives the following `update()` calls from the
+   * log instead of live input, one recorded frame per call (the passed delta is ignored).
+   */
+  startReplay(recording: InputRecording, onComplete?: () => void): void {
+    if (this.disposed) {
+      throw new Error("Cannot replay a recording on a disposed FirstPersonController.");
+    }
+
+    const replayer = new InputReplay(recording);
+    this.recorder = undefined;
+    this.replayer = replayer;
+    this.replayCompleteCallback = onComplete;
+    this.restore(replayer.getStart());
+
+    if (replayer.isFinished()) {
+      this.finishReplay();
+    }
+  }
+
+  stopReplay(): void {
+    this.replayer = undefined;
+    this.replayCompleteCallback = undefined;
+  }
+
+  isReplaying(): boolean {
+    return this.replayer !== undefined;
+  }
+
+  /** Runs a whole recording synchronously and returns the resulting state. */
+  replay(recording: InputRecording): Readonly<ControllerState> {
+    this.startReplay(recording);
+    while (this.replayer) {
+      this.update(0);
+    }
+    return this.getState();
+  }
+
+  /**
+   * Client side: every simulated tick becomes a numbered `InputCommand` passed to
+   * `onInputCommand` and kept until `reconcile()` acknowledges it. Pass `undefined` to stop.
+   */
+  setPrediction(options: PredictionOptions | undefined): void {
+    if (!options) {
+      this.prediction = undefined;
+      this.correctionOffset.set(0, 0, 0);
+      return;
+    }
+
+    const buffer = this.prediction?.buffer ?? new InputCommandBuffer(DEFAULT_MAX_PENDING_COMMANDS);
+    if (options.maxPendingCommands !== undefined) {
+      buffer.setMaxSize(options.maxPendingCommands);
+    }
+
+    this.prediction = {
+      buffer,
+      onInputCommand: options.onInputCommand,
+      correctionSmoothing: Math.max(0, options.correctionSmoothing ?? DEFAULT_CORRECTION_SMOOTHING),
+      snapDistance: Math.max(0, options.snapDistance ?? DEFAULT_CORRECTION_SNAP_DISTANCE),
+    };
+  }
+
+  getPendingInputCommands(): InputCommand[] {
+    return this.prediction?.buffer.getPending() ?? [];
+  }
+
+  /**
+   * Server side: simulates one client command on this controller. Commands at or below
+   * `getLastProcessedInput()` are ignored so duplicates and reordering are harmless.
+   */
+  applyInputCommand(command: InputCommand): Readonly<ControllerState> {
+    if (this.disposed || command.sequence <= this.lastProcessedInput) {
+      return this.getState();
+    }
+
+    this.lastProcessedInput = command.sequence;
+    const input = this.toMotorInput(command);
+
+    if (this.lookOnly) {
+      this.motor.setLookAngles(command.yaw, input.pitch ?? command.pitch);
+    } else {
+      this.stepMotor(Math.max(0, command.delta), input);
+    }
+
+    this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
+    return this.getState();
+  }
+
+  getLastProcessedInput(): number {
+    return this.lastProcessedInput;
+  }
+
+  /**
+   * Client side: adopts the authoritative state the server produced after command `sequence`,
+   * re-simulates the commands it has not processed yet and blends the camera towards the
+   * corrected position. Look angles stay client-authoritative.
+   */
+  reconcile(sequence: number, state: Readonly<ControllerState>): void {
+    const prediction = this.prediction;
+    if (this.disposed || !prediction) {
+      return;
+    }
+
+    const { yaw, pitch } = this.motor.getAngles();
+    const crouching = this.motor.isCrouching();
+    this.motor.getPosition(this.reconcileShift).negate();
+
+    const acknowledged = prediction.buffer.acknowledge(sequence);
+    if (acknowledged) {
+      this.motor.setCurrentHeight(acknowledged.height);
+      this.motor.setJumpState(acknowledged.jump);
+      this.motor.setSlideNormal(acknowledged.slideNormal);
+    }
+    this.motor.setState({
+      position: state.position,
+      velocity: state.velocity,
+      onGround: state.onGround,
+      ...(state.stamina ? { stamina: state.stamina } : {}),
+    });
+
+    this.resimulating = true;
+    for (const command of prediction.buffer.getPending()) {
+      this.motor.step(command.delta, this.toMotorInput(command));
+      prediction.buffer.updateState(command.sequence, this.getPredictedState());
+    }
+    this.resimulating = false;
+
+    this.motor.setLookAngles(yaw, pitch);
+    this.motor.setCrouch(crouching);
+
+    // Keep the rendered position where it was and let decayCorrection() ease it over.
+    this.reconcileShift.add(this.motor.getPosition(this.simulatedPosition));
+    this.interpolationStart.add(this.reconcileShift);
+    this.correctionOffset.sub(this.reconcileShift);
+    if (this.correctionOffset.length() > prediction.snapDistance) {
+      this.correctionOffset.set(0, 0, 0);
     }
+
+    this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
   }
 
   setLookSensitivity(value: number): void {
-    this.lookSensitivity = Math.max(0.0001, value);
+    this.mouseLook.setSensitivity(value);
+  }
+
+  /** Tunes per-axis sensitivity, invert-Y, smoothing and acceleration of mouse look. */
+  setMouseLookOptions(options: MouseLookOptions): void {
+    this.mouseLook.updateOptions(options);
   }
 
   setMaxPitch(value: number): void {
     this.maxPitch = Math.max(0.1, Math.min(Math.PI / 2 - 0.01, value));
-    const clamped = THREE.MathUtils.clamp(this.state.pitch, -this.maxPitch, this.maxPitch);
-    const changed = clamped !== this.state.pitch;
-    this.state.pitch = clamped;
-    if (changed) {
+    const { yaw, pitch } = this.motor.getAngles();
+    const clamped = THREE.MathUtils.clamp(pitch, -this.maxPitch, this.maxPitch);
+    if (clamped !== pitch) {
+      this.motor.setLookAngles(yaw, clamped);
       this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
       this.notifyLookChange();
     }
   }
 
-  setLookAngles(yaw: number, pitch: number = this.state.pitch): void {
-    this.state.yaw = yaw;
-    const clampedPitch = THREE.MathUtils.clamp(pitch, -this.maxPitch, this.maxPitch);
-    this.state.pitch = clampedPitch;
+  setLookAngles(yaw: number, pitch: number = this.motor.getAngles().pitch): void {
+    this.motor.setLookAngles(yaw, THREE.MathUtils.clamp(pitch, -this.maxPitch, this.maxPitch));
     this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
     this.notifyLookChange();
   }
 
+  setFixedTimeStep(step: number | undefined, maxSubSteps?: number): void {
+    this.recorder?.recordOptions({
+      fixedTimeStep: step ?? 0,
+      ...(maxSubSteps !== undefined ? { maxSubSteps } : {}),
+    });
+    this.fixedTimeStep = step !== undefined && step > 0 ? step : undefined;
+    if (maxSubSteps !== undefined) {
+      this.maxSubSteps = Math.max(1, Math.floor(maxSubSteps));
+    }
+    this.resetInterpolation();
+  }
+
   setSprintMultiplier(multiplier: number): void {
-    this.sprintMultiplier = Math.max(1, multiplier);
+    this.recorder?.recordOptions({ sprintMultiplier: multiplier });
+    this.motor.setSprintMultiplier(multiplier);
   }
 
   setPointerLockEnabled(enabled: boolean): void {
     this.pointerLock.setEnabled(enabled);
     if (!enabled) {
-      this.keyboard.setPointerLockActive(false);
+      this.keyboardMouse.setPointerLockActive(false);
     } else {
-      this.keyboard.setPointerLockActive(this.pointerLock.isLocked());
+      this.keyboardMouse.setPointerLockActive(this.pointerLock.isLocked());
     }
   }
 
@@ -240,7 +474,175 @@ export class FirstPersonController {
   }
 
   setKeyBindings(bindings: KeyBindingsOverrides): void {
-    this.keyboard.updateBindings(bindings);
+    this.keyboardMouse.updateBindings(bindings);
+  }
+
+  setCollision(options: CollisionOptions | undefined): void {
+    this.recorder?.recordUnreplayable("setCollision");
+    const onCollision = options?.onCollision;
+    if (!options || !onCollision) {
+      this.motor.setCollision(options);
+      return;
+    }
+
+    this.motor.setCollision({
+      ...options,
+      onCollision: (contacts) => {
+        if (!this.resimulating) {
+          onCollision(contacts);
+        }
+      },
+    });
+  }
+
+  setStamina(options: StaminaOptions | undefined): void {
+    this.recorder?.recordUnreplayable("setStamina");
+    if (!options) {
+      this.motor.setStamina(undefined);
+      return;
+    }
+
+    const { onChange, onExhaustedChange } = options;
+    const wrapped: StaminaOptions = { ...options };
+    if (onChange) {
+      wrapped.onChange = (stamina) => {
+        if (!this.resimulating) {
+          onChange(stamina);
+        }
+      };
+    }
+    if (onExhaustedChange) {
+      wrapped.onExhaustedChange = (exhausted) => {
+        if (!this.resimulating) {
+          onExhaustedChange(exhausted);
+        }
+      };
+    }
+    this.motor.setStamina(wrapped);
+  }
+
+  getStamina(): StaminaState | undefined {
+    return this.motor.getStamina();
+  }
+
+  getCollisionContacts(): CollisionContact[] {
+    return this.motor.getCollisionContacts();
+  }
+
+  /** Registers a climbable volume; see `CharacterMotor.addLadder`. */
+  addLadder(volume: LadderVolume, options?: LadderOptions): void {
+    this.recorder?.recordUnreplayable("addLadder");
+    this.motor.addLadder(volume, options);
+  }
+
+  removeLadder(volume: LadderVolume): void {
+    this.recorder?.recordUnreplayable("removeLadder");
+    this.motor.removeLadder(volume);
+  }
+
+  isOnLadder(): boolean {
+    return this.motor.isOnLadder();
+  }
+
+  /** Registers a water box or surface height function; see `CharacterMotor.addWater`. */
+  addWater(volume: WaterVolume): void {
+    this.recorder?.recordUnreplayable("addWater");
+    this.motor.addWater(volume);
+  }
+
+  removeWater(volume: WaterVolume): void {
+    this.recorder?.recordUnreplayable("removeWater");
+    this.motor.removeWater(volume);
+  }
+
+  isSwimming(): boolean {
+    return this.motor.isSwimming();
+  }
+
+  isUnderwater(): boolean {
+    return this.motor.isUnderwater();
+  }
+
+  isSliding(): boolean {
+    return this.motor.isSliding();
+  }
+
+  addInputSource(source: InputSource): void {
+    if (!this.inputSources.includes(source)) {
+      this.inputSources.push(source);
+    }
+  }
+
+  removeInputSource(source: InputSource): void {
+    const index = this.inputSources.indexOf(source);
+    if (index >= 0) {
+      this.inputSources.splice(index, 1);
+      source.reset?.();
+    }
+  }
+
+  getInputSources(): InputSource[] {
+    return [...this.inputSources];
+  }
+
+  setGamepadOptions(options: GamepadOptions | undefined): void {
+    if (!options) {
+      if (this.gamepad) {
+        this.removeInputSource(this.gamepad);
+      }
+      this.gamepad = undefined;
+      return;
+    }
+
+    if (this.gamepad) {
+      this.gamepad.updateOptions(options);
+    } else {
+      this.gamepad = new GamepadControls(options);
+      this.addInputSource(this.gamepad);
+    }
+  }
+
+  setTouchOptions(options: TouchControlsOptions | undefined): void {
+    if (!options) {
+      if (this.touch) {
+        this.removeInputSource(this.touch);
+        this.touch.dispose();
+      }
+      this.touch = undefined;
+      return;
+    }
+
+    if (this.touch) {
+      this.touch.updateOptions(options);
+    } else {
+      this.touch = new TouchControls(this.domElement, options);
+      this.addInputSource(this.touch);
+      if (!this.disposed) {
+        this.touch.attach();
+      }
+    }
+  }
+
+  /** Enables head bob, landing dip and strafe tilt; pass `undefined` to turn them off. */
+  setCameraEffects(options: CameraEffectsOptions | undefined): void {
+    if (!options) {
+      this.cameraEffects = undefined;
+    } else if (this.cameraEffects) {
+      this.cameraEffects.updateOptions(options);
+    } else {
+      this.cameraEffects = new CameraEffects(options);
+    }
+
+    this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
+  }
+
+  /** Tunes the footstep cadence behind the `footstep` event. */
+  setFootstepOptions(options: FootstepOptions): void {
+    this.footsteps.updateOptions(options);
+  }
+
+  isGamepadConnected(): boolean {
+    return this.gamepad?.isConnected() ?? false;
   }
 
   setPointerLockChangeCallback(callback: ((locked: boolean) => void) | undefined): void {
@@ -255,37 +657,137 @@ export class FirstPersonController {
     this.lookChangeCallback = callback;
   }
 
-  setJumpCallback(callback: (() => void) | undefined): void {
+  setJumpCallback(callback: JumpCallback | undefined): void {
     this.jumpCallback = callback;
   }
 
+  /**
+   * Adds a listener for a controller event and returns a function that removes it. Unlike the
+   * `on*` options, any number of listeners can subscribe to the same event.
+   */
+  on<K extends keyof ControllerEventMap>(
+    type: K,
+    listener: ControllerEventListener<K>,
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  once<K extends keyof ControllerEventMap>(
+    type: K,
+    listener: ControllerEventListener<K>,
+  ): () => void {
+    return this.events.once(type, listener);
+  }
+
+  off<K extends keyof ControllerEventMap>(type: K, listener: ControllerEventListener<K>): void {
+    this.events.off(type, listener);
+  }
+
   isPointerLocked(): boolean {
     return this.pointerLock.isLocked();
   }
 
   getHeight(): number {
-    return this.config.height;
+    return this.motor.getHeight();
+  }
+
+  /** Captures the full runtime state (including crouch progress and options) as plain JSON. */
+  serialize(): ControllerSnapshot {
+    return {
+      version: CONTROLLER_SNAPSHOT_VERSION,
+      motor: this.motor.serialize(),
+      accumulator: encodeNumber(this.accumulator),
+      options: {
+        lookSensitivity: encodeNumber(this.mouseLook.getSensitivity()),
+        mouseLook: this.mouseLook.serialize(),
+        maxPitch: encodeNumber(this.maxPitch),
+        fieldOfView: encodeNumber(this.fieldOfView),
+        lookOnly: this.lookOnly,
+        enablePointerLock: this.pointerLock.isEnabled(),
+        autoPointerLock: this.pointerLock.isAutoLockEnabled(),
+        keyBindings: this.keyboardMouse.getBindings(),
+        fixedTimeStep: this.fixedTimeStep !== undefined ? encodeNumber(this.fixedTimeStep) : null,
+        maxSubSteps: encodeNumber(this.maxSubSteps),
+        crouchMode: this.crouchMode,
+        sprintMode: this.sprintMode,
+      },
+    };
+  }
+
+  /** Restores a snapshot from `serialize()`; held keys and pending look input are cleared. */
+  restore(snapshot: ControllerSnapshot): void {
+    if (snapshot.version !== CONTROLLER_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported controller snapshot version ${String(snapshot.version)}; expected ${CONTROLLER_SNAPSHOT_VERSION}.`,
+      );
+    }
+
+    this.recorder?.recordUnreplayable("restore");
+    const { options } = snapshot;
+    this.setLookOnlyMode(options.lookOnly);
+    this.setLookSensitivity(decodeNumber(options.lookSensitivity));
+    this.mouseLook.restore(options.mouseLook);
+    this.setMaxPitch(decodeNumber(options.maxPitch));
+    this.setPointerLockEnabled(options.enablePointerLock);
+    this.setAutoPointerLock(options.autoPointerLock);
+    this.setKeyBindings(options.keyBindings);
+    this.fieldOfView = decodeNumber(options.fieldOfView);
+    this.motor.restore(snapshot.motor);
+    this.setFixedTimeStep(
+      options.fixedTimeStep !== null ? decodeNumber(options.fixedTimeStep) : undefined,
+      decodeNumber(options.maxSubSteps),
+    );
+    this.setCrouchMode(options.crouchMode);
+    this.setSprintMode(options.sprintMode);
+    this.accumulator = decodeNumber(snapshot.accumulator);
+    this.correctionOffset.set(0, 0, 0);
+    this.cameraEffects?.reset();
+    this.frameMove.x = 0;
+    this.frameMove.y = 0;
+    this.frameActions.clear();
+    this.crouchHeld = false;
+    this.sprintHeld = false;
+    this.sprintToggled = false;
+    this.wasMoving = false;
+    this.crouched = this.motor.isCrouching();
+    this.sprinting = false;
+    this.swimming = false;
+    this.underwater = false;
+    this.footsteps.reset();
+    this.inputSources.forEach((source) => source.reset?.());
+    this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
+    this.notifyLookChange();
   }
 
   getState(): Readonly<ControllerState> {
-    return Object.freeze({
-      position: this.state.position.clone(),
-      velocity: this.state.velocity.clone(),
-      yaw: this.state.yaw,
-      pitch: this.state.pitch,
-      onGround: this.state.onGround,
-    });
+    return this.motor.getState();
   }
 
   applyToCamera(camera: THREE.PerspectiveCamera, options?: { includePosition?: boolean }): void {
     const includePosition = options?.includePosition ?? true;
 
     if (includePosition) {
-      camera.position.copy(this.state.position);
+      this.motor.getPosition(camera.position);
+      if (this.fixedTimeStep !== undefined && this.interpolationAlpha < 1) {
+        camera.position.lerpVectors(
+          this.interpolationStart,
+          this.motor.getPosition(this.simulatedPosition),
+          this.interpolationAlpha,
+        );
+      }
+      camera.position.add(this.correctionOffset);
     }
 
-    this.tempEuler.set(this.state.pitch, this.state.yaw, 0);
-    camera.quaternion.setFromEuler(this.tempEuler);
+    const { yaw, pitch } = this.motor.getAngles();
+    const upOrientation = this.motor.getUpOrientation(this.upOrientation);
+    const effects = includePosition ? this.cameraEffects : undefined;
+    if (effects) {
+      camera.position.add(
+        effects.getOffset(yaw, this.effectsOffset).applyQuaternion(upOrientation),
+      );
+    }
+    this.tempEuler.set(pitch, yaw, effects?.getRoll() ?? 0);
+    camera.quaternion.setFromEuler(this.tempEuler).premultiply(upOrientation);
     camera.fov = this.fieldOfView;
     camera.updateProjectionMatrix();
     camera.updateMatrixWorld();
@@ -316,18 +818,25 @@ export class FirstPersonController {
   }
 
   enableCrouch(enabled: boolean): void {
-    this.crouchEnabled = enabled;
-    if (!enabled) {
-      this.isCrouching = false;
-    }
+    this.recorder?.recordOptions({ enableCrouch: enabled });
+    this.motor.enableCrouch(enabled);
   }
 
   setCrouch(enabled: boolean): void {
-    if (!this.crouchEnabled) {
-      return;
-    }
+    this.motor.setCrouch(enabled);
+  }
 
-    this.isCrouching = enabled;
+  /** `hold` crouches while the crouch action is held; `toggle` flips crouch on each press. */
+  setCrouchMode(mode: ActionMode): void {
+    this.recorder?.recordOptions({ crouchMode: mode });
+    this.crouchMode = mode;
+  }
+
+  /** `hold` sprints while the sprint action is held; `toggle` latches it until movement stops. */
+  setSprintMode(mode: ActionMode): void {
+    this.recorder?.recordOptions({ sprintMode: mode });
+    this.sprintMode = mode;
+    this.sprintToggled = false;
   }
 
   getDebugInfo(): {
@@ -338,13 +847,15 @@ export class FirstPersonController {
     velocity: THREE.Vector3;
     pointerLocked: boolean;
   } {
-    const horizontalSpeed = Math.hypot(this.state.velocity.x, this.state.velocity.z);
+    const state = this.motor.getState();
+    const vertical = state.velocity.dot(this.motor.getUp(this.upAxis));
+    const horizontalSpeed = Math.sqrt(Math.max(0, state.velocity.lengthSq() - vertical ** 2));
     return {
       speed: horizontalSpeed,
-      onGround: this.state.onGround,
-      yaw: this.state.yaw,
-      pitch: this.state.pitch,
-      velocity: this.state.velocity.clone(),
+      onGround: state.onGround,
+      yaw: state.yaw,
+      pitch: state.pitch,
+      velocity: state.velocity,
       pointerLocked: this.pointerLock.isLocked(),
     };
   }
@@ -355,195 +866,440 @@ export class FirstPersonController {
     }
 
     this.disposed = true;
-    this.keyboard.dispose();
+    this.recorder = undefined;
+    this.stopReplay();
+    this.keyboardMouse.dispose();
+    this.touch?.dispose();
     this.pointerLock.dispose();
 
     this.domElement.removeEventListener("click", this.onClickHandler);
-    document.removeEventListener("mousemove", this.onMouseMoveHandler);
+    this.events.emit("dispose");
+    this.events.clear();
   }
 
   private initializeCamera(): void {
-    this.state.velocity.set(0, 0, 0);
-    this.state.onGround = true;
-    this.currentHeight = this.config.height;
+    this.motor.setState({ velocity: new THREE.Vector3(), onGround: true });
+    this.motor.setCurrentHeight(this.motor.getHeight());
+    this.resetInterpolation();
 
     if (this.lookOnly) {
-      this.state.position.copy(this.camera.position);
-      this.tempEuler.setFromQuaternion(this.camera.quaternion, "YXZ");
-      this.state.yaw = this.tempEuler.y;
-      this.state.pitch = THREE.MathUtils.clamp(this.tempEuler.x, -this.maxPitch, this.maxPitch);
+      this.motor.setState({ position: this.camera.position });
+      this.tempEuler.setFromQuaternion(this.getLocalOrientation(this.camera.quaternion), "YXZ");
+      this.motor.setLookAngles(
+        this.tempEuler.y,
+        THREE.MathUtils.clamp(this.tempEuler.x, -this.maxPitch, this.maxPitch),
+      );
       this.applyToCamera(this.camera, { includePosition: false });
       return;
     }
 
-    this.state.position.copy(this.initialPosition);
-    this.state.yaw = 0;
-    this.state.pitch = 0;
+    this.motor.setState({ position: this.initialPosition, yaw: 0, pitch: 0 });
+    this.resetInterpolation();
     this.applyToCamera(this.camera);
   }
 
   private initializeListeners(): void {
     this.domElement.addEventListener("click", this.onClickHandler);
-    document.addEventListener("mousemove", this.onMouseMoveHandler);
+    this.keyboardMouse.attachMouse();
     if (!this.lookOnly) {
-      this.keyboard.attach();
+      this.keyboardMouse.attachKeyboard();
     }
     this.pointerLock.attach();
   }
 
-  private updateMovement(delta: number): void {
-    const state = this.state;
-    this.yawQuaternion.setFromAxisAngle(this.upVector, state.yaw);
+  private step(delta: number): void {
+    if (this.lookOnly) {
+      this.applyToCamera(this.camera, { includePosition: false });
+      return;
+    }
+
+    if (this.fixedTimeStep !== undefined) {
+      this.advanceFixedSteps(delta, this.fixedTimeStep);
+      this.updateCameraEffects(delta);
+      this.applyToCamera(this.camera);
+      return;
+    }
+
+    // Skip update if delta is too small to prevent numerical instability
+    if (delta < 1e-6) {
+      return;
+    }
 
-    this.forwardVector.set(0, 0, -1).applyQuaternion(this.yawQuaternion);
-    this.rightVector.set(1, 0, 0).applyQuaternion(this.yawQuaternion);
+    this.runTick(delta);
+    this.updateCameraEffects(delta);
+    this.applyToCamera(this.camera);
+  }
 
-    this.moveDirection.set(0, 0, 0);
+  private runTick(delta: number): void {
+    const input = { move: this.frameMove, actions: this.frameActions };
+    const prediction = this.prediction;
+    if (!prediction) {
+      this.stepMotor(delta, input);
+      return;
+    }
 
-    if (this.keyboard.isActionPressed("forward")) this.moveDirection.add(this.forwardVector);
-    if (this.keyboard.isActionPressed("backward")) this.moveDirection.sub(this.forwardVector);
-    if (this.keyboard.isActionPressed("left")) this.moveDirection.sub(this.rightVector);
-    if (this.keyboard.isActionPressed("right")) this.moveDirection.add(this.rightVector);
+    const command = this.createInputCommand(prediction.buffer.allocateSequence(), delta);
+    this.stepMotor(delta, input);
+    prediction.buffer.push(command, this.getPredictedState());
+    prediction.onInputCommand?.(command);
+  }
 
-    if (this.moveDirection.lengthSq() > 0) {
-      this.moveDirection.normalize();
-      const moveSpeed = this.getMoveSpeed();
-      this.tempDisplacement.copy(this.moveDirection).multiplyScalar(moveSpeed * delta);
-      state.position.add(this.tempDisplacement);
-      state.velocity.x = this.tempDisplacement.x / delta;
-      state.velocity.z = this.tempDisplacement.z / delta;
-    } else {
-      state.velocity.x = 0;
-      state.velocity.z = 0;
+  private getPredictedState(): PredictedState {
+    const slideNormal = this.motor.getSlideNormal(new THREE.Vector3());
+    return {
+      height: this.motor.getCurrentHeight(),
+      jump: this.motor.getJumpState(),
+      ...(slideNormal ? { slideNormal } : {}),
+    };
+  }
+
+  /** Steps the motor and emits the ground, crouch and sprint transitions of that tick. */
+  private stepMotor(delta: number, input: MotorInput): void {
+    const before = this.motor.getState();
+    const state = this.motor.step(delta, input);
+
+    if (before.onGround && !state.onGround) {
+      this.events.emit("leaveGround");
+    } else if (!before.onGround && state.onGround) {
+      const velocity = this.motor.getImpactVelocity(new THREE.Vector3());
+      const impactSpeed = -velocity.dot(this.motor.getUp(this.upAxis));
+      this.events.emit("land", { impactSpeed: Math.max(0, impactSpeed), velocity });
+      this.cameraEffects?.land(impactSpeed);
+    }
+
+    const crouched = this.motor.isCrouching() || this.motor.isHeadroomBlocked();
+    if (crouched !== this.crouched) {
+      this.crouched = crouched;
+      this.events.emit(crouched ? "crouch" : "stand");
+    }
+
+    const sprinting = this.motor.isSprinting();
+    if (sprinting !== this.sprinting) {
+      this.sprinting = sprinting;
+      this.events.emit(sprinting ? "sprintStart" : "sprintStop");
+    }
+
+    const swimming = this.motor.isSwimming();
+    if (swimming !== this.swimming) {
+      this.swimming = swimming;
+      this.events.emit(swimming ? "waterEnter" : "waterExit");
+    }
+
+    const underwater = this.motor.isUnderwater();
+    if (underwater !== this.underwater) {
+      this.underwater = underwater;
+      this.events.emit(underwater ? "underwaterEnter" : "underwaterExit");
+    }
+
+    if (state.yaw !== before.yaw) {
+      // Turned by a rotating platform.
+      this.notifyLookChange();
+    }
+
+    this.advanceFootsteps(before, state, delta);
+  }
+
+  private advanceFootsteps(
+    before: Readonly<ControllerState>,
+    state: Readonly<ControllerState>,
+    delta: number,
+  ): void {
+    if (!before.onGround || !state.onGround) {
+      this.footsteps.reset();
+      return;
+    }
+
+    // The character's own velocity, so riding a moving platform does not count as walking.
+    const up = this.motor.getUp(this.upAxis);
+    const travel = this.stepTravel.copy(state.velocity).multiplyScalar(delta);
+    const distance = travel.addScaledVector(up, -travel.dot(up)).length();
+    if (distance < MIN_FOOTSTEP_TRAVEL) {
+      this.footsteps.reset();
+      return;
+    }
+
+    const foot = this.footsteps.advance(distance, this.sprinting, this.crouched);
+    if (!foot) {
+      return;
     }
 
-    if (this.keyboard.isActionPressed("jump") && state.onGround) {
-      state.velocity.y = this.config.jumpSpeed;
-      state.onGround = false;
-      this.jumpCallback?.();
+    const surface = this.motor.getGroundInfo()?.surface;
+    this.events.emit("footstep", {
+      foot,
+      ...(surface !== undefined ? { surface } : {}),
+      position: state.position,
+      speed: delta > 0 ? distance / delta : 0,
+    });
+  }
+
+  private createInputCommand(sequence: number, delta: number): InputCommand {
+    const { yaw, pitch } = this.motor.getAngles();
+    return {
+      sequence,
+      delta,
+      moveX: this.frameMove.x,
+      moveY: this.frameMove.y,
+      actions: encodeActions((action) => this.frameActions.has(action)),
+      yaw,
+      pitch,
+      crouching: this.motor.isCrouching(),
+    };
+  }
+
+  private toMotorInput(command: InputCommand): MotorInput {
+    this.frameMove.x = command.moveX;
+    this.frameMove.y = command.moveY;
+    decodeActions(command.actions, this.frameActions);
+    return {
+      move: this.frameMove,
+      actions: this.frameActions,
+      yaw: command.yaw,
+      pitch: THREE.MathUtils.clamp(command.pitch, -this.maxPitch, this.maxPitch),
+      crouch: command.crouching,
+    };
+  }
+
+  private updateCameraEffects(delta: number): void {
+    if (!this.cameraEffects) {
+      return;
     }
+
+    this.cameraEffects.update(
+      delta,
+      this.motor.getState(),
+      this.motor.getMovementConfig().moveSpeed,
+      this.motor.getUpOrientation(this.upOrientation),
+    );
+  }
+
+  /** `quaternion` relative to the up frame, so yaw and pitch can be read from it. */
+  private getLocalOrientation(quaternion: THREE.Quaternion): THREE.Quaternion {
+    return this.localOrientation
+      .copy(this.motor.getUpOrientation(this.upOrientation))
+      .invert()
+      .multiply(quaternion);
   }
 
-  private applyGravity(delta: number): void {
-    if (delta <= 0) {
+  private decayCorrection(delta: number): void {
+    if (this.correctionOffset.lengthSq() === 0) {
       return;
     }
 
-    const gravity = this.gravityFn
-      ? this.gravityFn(this.state.position.clone())
-      : this.gravityCache.set(0, -this.config.gravity, 0);
+    const smoothing = this.prediction?.correctionSmoothing ?? 0;
+    this.correctionOffset.multiplyScalar(smoothing > 0 ? Math.exp(-delta / smoothing) : 0);
+    if (this.correctionOffset.lengthSq() < 1e-8) {
+      this.correctionOffset.set(0, 0, 0);
+    }
+  }
+
+  /**
+   * Accumulates frame time and runs the simulation in fixed increments so results do not
+   * depend on the display refresh rate. Leftover time becomes the interpolation factor
+   * between the last two simulated positions.
+   */
+  private advanceFixedSteps(delta: number, step: number): void {
+    this.accumulator += delta;
+    let steps = 0;
+
+    while (this.accumulator >= step && steps < this.maxSubSteps) {
+      this.motor.getPosition(this.interpolationStart);
+      this.runTick(step);
+      this.accumulator -= step;
+      steps += 1;
+    }
+
+    // Drop time we could not catch up on instead of spiralling after long hitches.
+    if (this.accumulator >= step) {
+      this.accumulator %= step;
+    }
+
+    this.interpolationAlpha = this.accumulator / step;
+  }
 
-    this.state.velocity.addScaledVector(gravity, delta);
-    this.state.position.y += this.state.velocity.y * delta;
+  private resetInterpolation(): void {
+    this.accumulator = 0;
+    this.interpolationAlpha = 1;
+    this.motor.getPosition(this.interpolationStart);
   }
 
-  private resolveGround(delta: number): void {
-    const result = this.runGroundCheck(delta);
-    let onGround = result.onGround;
-    const normal = result.groundNormal ? result.groundNormal.clone().normalize() : null;
+  private pollInputSources(delta: number): void {
+    let lookX = 0;
+    let lookY = 0;
+    this.frameMove.x = 0;
+    this.frameMove.y = 0;
+    this.frameActions.clear();
+
+    for (const source of this.inputSources) {
+      source.poll?.(delta);
+      const look = source.consumeLookDelta(delta);
+      lookX += look.x;
+      lookY += look.y;
+      const move = source.getMoveVector();
+      this.frameMove.x += move.x;
+      this.frameMove.y += move.y;
+    }
 
-    if (onGround && this.maxSlopeAngle !== undefined && normal) {
-      const angle = this.upVector.angleTo(normal);
-      if (angle > this.maxSlopeAngle) {
-        onGround = false;
+    for (const action of MOVEMENT_ACTIONS) {
+      if (this.inputSources.some((source) => source.isActionPressed(action))) {
+        this.frameActions.add(action);
       }
     }
 
-    if (onGround) {
-      const desiredY = this.currentHeight;
-      const diff = desiredY - this.state.position.y;
+    if (lookX !== 0 || lookY !== 0) {
+      this.rotateView(lookX, lookY);
+    }
 
-      if (this.maxStepHeight !== undefined && Math.abs(diff) > this.maxStepHeight) {
-        onGround = false;
-      } else {
-        this.state.position.y = desiredY;
-        if (this.state.velocity.y < 0) {
-          this.state.velocity.y = 0;
-        }
-        this.state.onGround = true;
-        return;
+    this.applyActionModes();
+  }
+
+  private applyActionModes(): void {
+    const crouchHeld = this.frameActions.has("crouch");
+    if (crouchHeld !== this.crouchHeld) {
+      this.crouchHeld = crouchHeld;
+      if (this.crouchMode === "hold") {
+        this.setCrouch(crouchHeld);
+      } else if (crouchHeld) {
+        this.setCrouch(!this.motor.isCrouching());
       }
     }
 
-    this.state.onGround = false;
+    const sprintHeld = this.frameActions.has("sprint");
+    const moving = this.frameMove.x !== 0 || this.frameMove.y !== 0;
+    if (this.sprintMode === "toggle") {
+      if (sprintHeld && !this.sprintHeld) {
+        this.sprintToggled = !this.sprintToggled;
+      } else if (this.wasMoving && !moving) {
+        this.sprintToggled = false;
+      }
+
+      if (this.sprintToggled) {
+        this.frameActions.add("sprint");
+      } else {
+        this.frameActions.delete("sprint");
+      }
+    }
+    this.sprintHeld = sprintHeld;
+    this.wasMoving = moving;
   }
 
-  private runGroundCheck(delta: number): { onGround: boolean; groundNormal: THREE.Vector3 | null } {
-    if (this.groundCheckFn) {
-      return this.groundCheckFn(this.getState(), delta);
+  private recordFrame(delta: number): void {
+    if (!this.recorder) {
+      return;
     }
 
-    const grounded = this.state.position.y <= this.currentHeight;
-    return {
-      onGround: grounded,
-      groundNormal: grounded ? this.upVector.clone() : null,
-    };
+    const { yaw, pitch } = this.motor.getAngles();
+    this.recorder.recordFrame([
+      delta,
+      this.frameMove.x,
+      this.frameMove.y,
+      encodeActions((action) => this.frameActions.has(action)),
+      yaw,
+      pitch,
+      this.motor.isCrouching() ? 1 : 0,
+    ]);
   }
 
-  private getMoveSpeed(): number {
-    let speed = this.config.moveSpeed;
+  private applyReplayFrame(): number | undefined {
+    const replayer = this.replayer;
+    if (!replayer) {
+      return undefined;
+    }
 
-    if (this.keyboard.isActionPressed("sprint")) {
-      speed *= this.sprintMultiplier;
+    replayer.takeOptions().forEach((options) => this.applyOptions(options));
+    const frame = replayer.nextFrame();
+    if (!frame) {
+      return undefined;
     }
 
-    if (this.crouchEnabled && this.isCrouching) {
-      speed *= this.crouchSpeedMultiplier;
+    const [delta, moveX, moveY, actions, yaw, pitch, crouching] = frame;
+    this.frameMove.x = moveX;
+    this.frameMove.y = moveY;
+    decodeActions(actions, this.frameActions);
+    this.motor.setCrouch(crouching === 1);
+
+    const angles = this.motor.getAngles();
+    if (yaw !== angles.yaw || pitch !== angles.pitch) {
+      this.motor.setLookAngles(yaw, pitch);
+      this.notifyLookChange();
     }
 
-    return speed;
+    return delta;
   }
 
-  private updateHeight(delta: number): void {
-    const targetHeight =
-      this.isCrouching && this.crouchEnabled ? this.crouchHeight : this.config.height;
-    const alpha = Math.min(1, delta * this.heightLerpSpeed);
-    this.currentHeight = THREE.MathUtils.lerp(this.currentHeight, targetHeight, alpha);
-    if (Math.abs(this.currentHeight - targetHeight) < 0.001) {
-      this.currentHeight = targetHeight;
+  // The setters applyOptions() calls are already covered by the recorded options.
+  private withoutRecording(apply: () => void): void {
+    const recorder = this.recorder;
+    this.recorder = undefined;
+    try {
+      apply();
+    } finally {
+      this.recorder = recorder;
     }
+  }
 
-    if (this.state.onGround) {
-      this.state.position.y = this.currentHeight;
-    }
+  private finishReplay(): void {
+    this.replayer?.takeOptions().forEach((options) => this.applyOptions(options));
+    const callback = this.replayCompleteCallback;
+    this.stopReplay();
+    callback?.();
+  }
+
+  private applyMouseLook(): void {
+    const look = this.keyboardMouse.consumeLookDelta();
+    this.rotateView(look.x, look.y);
+    this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
+  }
+
+  private rotateView(deltaYaw: number, deltaPitch: number): void {
+    const { yaw, pitch } = this.motor.getAngles();
+    this.motor.setLookAngles(
+      yaw - deltaYaw,
+      THREE.MathUtils.clamp(pitch - deltaPitch, -this.maxPitch, this.maxPitch),
+    );
+    this.notifyLookChange();
   }
 
   private handlePointerLockChange(locked: boolean): void {
     if (!locked) {
-      this.keyboard.reset();
+      this.keyboardMouse.reset();
     }
 
-    this.keyboard.setPointerLockActive(locked);
+    this.keyboardMouse.setPointerLockActive(locked);
     this.pointerLockChangeCallback?.(locked);
     this.pointerLockToggleCallback?.(locked);
+    this.events.emit("pointerLockChange", locked);
   }
 
-  private applyOptions(options: FirstPersonControllerOptions): void {
-    const movementUpdates: Partial<PlayerConfig> = {};
-
+  private applyOptions(options: Partial<FirstPersonControllerOptions>): void {
     if (hasOwn(options, "lookOnly")) {
       this.setLookOnlyMode(options.lookOnly ?? false);
     }
 
-    if (options.height !== undefined) movementUpdates.height = options.height;
-    if (options.moveSpeed !== undefined) movementUpdates.moveSpeed = options.moveSpeed;
-    if (options.jumpSpeed !== undefined) movementUpdates.jumpSpeed = options.jumpSpeed;
-    if (options.gravity !== undefined) movementUpdates.gravity = options.gravity;
+    const { collision, stamina, onJump, ...motorOptions } = options;
+    this.motor.updateOptions(motorOptions);
+
+    if (hasOwn(options, "collision")) {
+      this.setCollision(collision);
+    }
 
-    if (Object.keys(movementUpdates).length > 0) {
-      this.setMovementConfig(movementUpdates);
+    if (hasOwn(options, "stamina")) {
+      this.setStamina(stamina);
+    }
+
+    if (hasOwn(options, "onJump")) {
+      this.setJumpCallback(onJump);
     }
 
     if (options.lookSensitivity !== undefined) {
       this.setLookSensitivity(options.lookSensitivity);
     }
 
-    if (options.maxPitch !== undefined) {
-      this.setMaxPitch(options.maxPitch);
+    if (options.mouseLook) {
+      this.setMouseLookOptions(options.mouseLook);
     }
 
-    if (options.sprintMultiplier !== undefined) {
-      this.setSprintMultiplier(options.sprintMultiplier);
+    if (options.maxPitch !== undefined) {
+      this.setMaxPitch(options.maxPitch);
     }
 
     if (options.enablePointerLock !== undefined) {
@@ -566,38 +1322,43 @@ export class FirstPersonController {
       this.lookChangeCallback = options.onLookChange ?? undefined;
     }
 
-    if (hasOwn(options, "gravityFn")) {
-      this.gravityFn = options.gravityFn ?? undefined;
+    if (hasOwn(options, "gamepad")) {
+      this.setGamepadOptions(options.gamepad);
     }
 
-    if (hasOwn(options, "groundCheckFn")) {
-      this.groundCheckFn = options.groundCheckFn ?? undefined;
+    if (hasOwn(options, "touch")) {
+      this.setTouchOptions(options.touch);
     }
 
-    if (hasOwn(options, "enableCrouch")) {
-      this.enableCrouch(options.enableCrouch ?? false);
+    if (hasOwn(options, "cameraEffects")) {
+      this.setCameraEffects(options.cameraEffects);
     }
 
-    if (options.crouchHeight !== undefined) {
-      this.crouchHeight = this.computeCrouchHeight(options.crouchHeight);
-    } else {
-      this.crouchHeight = this.computeCrouchHeight(this.crouchHeight);
+    if (options.footsteps) {
+      this.setFootstepOptions(options.footsteps);
+    }
+
+    if (options.inputSources) {
+      options.inputSources.forEach((source) => this.addInputSource(source));
     }
 
-    if (options.crouchSpeedMultiplier !== undefined) {
-      this.crouchSpeedMultiplier = Math.max(0.01, options.crouchSpeedMultiplier);
+    if (hasOwn(options, "prediction")) {
+      this.setPrediction(options.prediction);
     }
 
-    if (hasOwn(options, "maxStepHeight")) {
-      this.maxStepHeight =
-        options.maxStepHeight !== undefined ? Math.max(0, options.maxStepHeight) : undefined;
+    if (options.crouchMode !== undefined) {
+      this.setCrouchMode(options.crouchMode);
     }
 
-    if (hasOwn(options, "maxSlopeAngle")) {
-      this.maxSlopeAngle =
-        options.maxSlopeAngle !== undefined
-          ? THREE.MathUtils.degToRad(Math.max(0, Math.min(89.9, options.maxSlopeAngle)))
-          : undefined;
+    if (options.sprintMode !== undefined) {
+      this.setSprintMode(options.sprintMode);
+    }
+
+    if (hasOwn(options, "fixedTimeStep") || options.maxSubSteps !== undefined) {
+      this.setFixedTimeStep(
+        hasOwn(options, "fixedTimeStep") ? options.fixedTimeStep : this.fixedTimeStep,
+        options.maxSubSteps,
+      );
     }
 
     if (hasOwn(options, "onPointerLockToggle")) {
@@ -607,10 +1368,6 @@ export class FirstPersonController {
     if (hasOwn(options, "onPointerLockChange")) {
       this.pointerLockChangeCallback = options.onPointerLockChange;
     }
-
-    if (hasOwn(options, "onJump")) {
-      this.setJumpCallback(options.onJump);
-    }
   }
 
   private setLookOnlyMode(enabled: boolean): void {
@@ -621,15 +1378,18 @@ export class FirstPersonController {
     this.lookOnly = enabled;
 
     if (enabled) {
-      this.keyboard.detach();
-      this.state.velocity.set(0, 0, 0);
+      this.keyboardMouse.detachKeyboard();
+      this.motor.setState({ velocity: new THREE.Vector3() });
     } else {
-      this.keyboard.attach();
-      this.state.position.copy(this.camera.position);
-      this.tempEuler.setFromQuaternion(this.camera.quaternion, "YXZ");
-      this.state.yaw = this.tempEuler.y;
-      this.state.pitch = THREE.MathUtils.clamp(this.tempEuler.x, -this.maxPitch, this.maxPitch);
-      this.state.onGround = true;
+      this.keyboardMouse.attachKeyboard();
+      this.tempEuler.setFromQuaternion(this.getLocalOrientation(this.camera.quaternion), "YXZ");
+      this.motor.setState({
+        position: this.camera.position,
+        yaw: this.tempEuler.y,
+        pitch: THREE.MathUtils.clamp(this.tempEuler.x, -this.maxPitch, this.maxPitch),
+        onGround: true,
+      });
+      this.resetInterpolation();
     }
 
     this.applyToCamera(this.camera, { includePosition: !this.lookOnly });
@@ -637,12 +1397,13 @@ export class FirstPersonController {
   }
 
   private notifyLookChange(): void {
-    this.lookChangeCallback?.(this.state.yaw, this.state.pitch);
-  }
+    if (!this.lookChangeCallback && !this.events.hasListeners("lookChange")) {
+      return;
+    }
 
-  private computeCrouchHeight(value?: number): number {
-    const base = value ?? this.config.height * DEFAULT_CROUCH_HEIGHT_RATIO;
-    return THREE.MathUtils.clamp(base, MIN_CROUCH_HEIGHT, this.config.height);
+    const { yaw, pitch } = this.motor.getAngles();
+    this.lookChangeCallback?.(yaw, pitch);
+    this.events.emit("lookChange", yaw, pitch);
   }
 
   setFieldOfView(value: number): void {
@@ -1,14 +1,15 @@
 import * as THREE from "three";
 
 import { DEFAULT_LOOK_SENSITIVITY, DEFAULT_MAX_PITCH } from "./constants.js";
-import type { LookChangeCallback, LookControllerOptions } from "./types.js";
+import type { LookChangeCallback, LookControllerOptions, MouseLookOptions } from "./types.js";
+import { MouseLook } from "./input/MouseLook.js";
 import { PointerLockManager } from "./input/PointerLockManager.js";
 
 export class LookController {
   private readonly camera: THREE.PerspectiveCamera;
   private readonly domElement: HTMLElement;
   private readonly pointerLock: PointerLockManager;
-  private lookSensitivity: number;
+  private readonly mouseLook: MouseLook;
   private maxPitch: number;
   private fieldOfView: number;
   private lookChangeCallback: LookChangeCallback | undefined;
@@ -16,6 +17,7 @@ export class LookController {
   private pointerLockToggleCallback: ((locked: boolean) => void) | undefined;
   private yaw: number;
   private pitch: number;
+  private lastUpdateTime: number | undefined;
   private disposed = false;
   private readonly tempEuler = new THREE.Euler(0, 0, 0, "YXZ");
 
@@ -49,15 +51,10 @@ export class LookController {
       return;
     }
 
-    this.yaw -= event.movementX * this.lookSensitivity;
-    this.pitch = THREE.MathUtils.clamp(
-      this.pitch - event.movementY * this.lookSensitivity,
-      -this.maxPitch,
-      this.maxPitch,
-    );
-
-    this.applyToCamera(this.camera);
-    this.notifyLookChange();
+    this.mouseLook.addMovement(event.movementX, event.movementY, event.timeStamp);
+    if (!this.mouseLook.isSmoothing()) {
+      this.applyMouseLook(0);
+    }
   };
 
   constructor(camera: THREE.PerspectiveCamera, options: LookControllerOptions) {
@@ -73,7 +70,10 @@ export class LookController {
       this.domElement.tabIndex = 0;
     }
 
-    this.lookSensitivity = options.lookSensitivity ?? DEFAULT_LOOK_SENSITIVITY;
+    this.mouseLook = new MouseLook(
+      options.lookSensitivity ?? DEFAULT_LOOK_SENSITIVITY,
+      options.mouseLook ?? {},
+    );
     this.maxPitch = options.maxPitch ?? DEFAULT_MAX_PITCH;
     this.fieldOfView = options.fieldOfView ?? camera.fov;
     this.lookChangeCallback = options.onLookChange ?? undefined;
@@ -94,11 +94,24 @@ export class LookController {
     this.initializeListeners();
   }
 
-  update(): void {
+  /**
+   * Re-applies the view. With `mouseLook.smoothing` this also releases the smoothed mouse
+   * input; pass the frame time in seconds or it is measured between calls.
+   */
+  update(deltaSeconds?: number): void {
     if (this.disposed) {
       return;
     }
 
+    const now = performance.now();
+    const elapsed = this.lastUpdateTime === undefined ? 0 : (now - this.lastUpdateTime) / 1000;
+    this.lastUpdateTime = now;
+
+    if (this.mouseLook.isSmoothing()) {
+      this.applyMouseLook(deltaSeconds ?? elapsed);
+      return;
+    }
+
     this.applyToCamera(this.camera);
   }
 
@@ -128,7 +141,12 @@ export class LookController {
   }
 
   setLookSensitivity(value: number): void {
-    this.lookSensitivity = Math.max(0.0001, value);
+    this.mouseLook.setSensitivity(value);
+  }
+
+  /** Tunes per-axis sensitivity, invert-Y, smoothing and acceleration of mouse look. */
+  setMouseLookOptions(options: MouseLookOptions): void {
+    this.mouseLook.updateOptions(options);
   }
 
   setMaxPitch(value: number): void {
@@ -212,7 +230,22 @@ export class LookController {
     this.pointerLock.attach();
   }
 
+  private applyMouseLook(delta: number): void {
+    const look = this.mouseLook.consume(delta);
+    if (look.x !== 0 || look.y !== 0) {
+      this.yaw -= look.x;
+      this.pitch = THREE.MathUtils.clamp(this.pitch - look.y, -this.maxPitch, this.maxPitch);
+      this.notifyLookChange();
+    }
+
+    this.applyToCamera(this.camera);
+  }
+
   private handlePointerLockChange(locked: boolean): void {
+    if (!locked) {
+      this.mouseLook.reset();
+    }
+
     this.pointerLockChangeCallback?.(locked);
     this.pointerLockToggleCallback?.(locked);
   }
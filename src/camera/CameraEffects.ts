@@ -0,0 +1,162 @@
+import * as THREE from "three";
+
+import {
+  DEFAULT_BOB_AMPLITUDE,
+  DEFAULT_BOB_FREQUENCY,
+  DEFAULT_LANDING_DAMPING,
+  DEFAULT_LANDING_DIP,
+  DEFAULT_LANDING_STIFFNESS,
+  DEFAULT_MAX_LANDING_DIP,
+  DEFAULT_STRAFE_TILT,
+  DEFAULT_TILT_SPEED,
+} from "../constants.js";
+import type { CameraEffectsOptions, ControllerState } from "../types.js";
+
+const MAX_SPRING_STEP = 1 / 120;
+const BOB_BLEND_SPEED = 10;
+const MAX_SPEED_RATIO = 2;
+const IDENTITY = new THREE.Quaternion();
+
+/**
+ * Head bob, landing dip and strafe tilt. Reads the simulated state every frame, plus the
+ * landings passed to `land()`, and produces a camera offset and roll; it never feeds back into
+ * movement.
+ */
+export class CameraEffects {
+  private bobAmplitude: number;
+  private bobFrequency: number;
+  private landingDip: number;
+  private maxLandingDip: number;
+  private landingStiffness: number;
+  private landingDamping: number;
+  private strafeTilt: number;
+  private tiltSpeed: number;
+  private reducedMotion: boolean;
+  private bobPhase = 0;
+  private bobWeight = 0;
+  private dip = 0;
+  private dipVelocity = 0;
+  private roll = 0;
+  private readonly up = new THREE.Vector3();
+  private readonly right = new THREE.Vector3();
+
+  constructor(options: CameraEffectsOptions = {}) {
+    this.bobAmplitude = DEFAULT_BOB_AMPLITUDE;
+    this.bobFrequency = DEFAULT_BOB_FREQUENCY;
+    this.landingDip = DEFAULT_LANDING_DIP;
+    this.maxLandingDip = DEFAULT_MAX_LANDING_DIP;
+    this.landingStiffness = DEFAULT_LANDING_STIFFNESS;
+    this.landingDamping = DEFAULT_LANDING_DAMPING;
+    this.strafeTilt = DEFAULT_STRAFE_TILT;
+    this.tiltSpeed = DEFAULT_TILT_SPEED;
+    this.reducedMotion = false;
+    this.updateOptions(options);
+  }
+
+  updateOptions(options: CameraEffectsOptions): void {
+    if (options.bobAmplitude !== undefined) this.bobAmplitude = Math.max(0, options.bobAmplitude);
+    if (options.bobFrequency !== undefined) this.bobFrequency = Math.max(0, options.bobFrequency);
+    if (options.landingDip !== undefined) this.landingDip = Math.max(0, options.landingDip);
+    if (options.maxLandingDip !== undefined) {
+      this.maxLandingDip = Math.max(0, options.maxLandingDip);
+    }
+    if (options.landingStiffness !== undefined) {
+      this.landingStiffness = Math.max(0, options.landingStiffness);
+    }
+    if (options.landingDamping !== undefined) {
+      this.landingDamping = Math.max(0, options.landingDamping);
+    }
+    if (options.strafeTilt !== undefined) this.strafeTilt = options.strafeTilt;
+    if (options.tiltSpeed !== undefined) this.tiltSpeed = Math.max(0, options.tiltSpeed);
+    if (options.reducedMotion !== undefined) {
+      this.reducedMotion = options.reducedMotion;
+      if (this.reducedMotion) {
+        this.reset();
+      }
+    }
+  }
+
+  isReducedMotion(): boolean {
+    return this.reducedMotion;
+  }
+
+  /**
+   * Advances the effects by one frame. `referenceSpeed` is the walking speed (`moveSpeed`);
+   * `upOrientation` rotates world y onto the current up axis, as `getUpOrientation()` returns.
+   */
+  update(
+    delta: number,
+    state: Readonly<ControllerState>,
+    referenceSpeed: number,
+    upOrientation: THREE.Quaternion = IDENTITY,
+  ): void {
+    if (delta <= 0 || this.reducedMotion) {
+      return;
+    }
+
+    const up = this.up.set(0, 1, 0).applyQuaternion(upOrientation);
+    const vertical = state.velocity.dot(up);
+    const speed = Math.sqrt(Math.max(0, state.velocity.lengthSq() - vertical * vertical));
+    const speedRatio = referenceSpeed > 0 ? Math.min(MAX_SPEED_RATIO, speed / referenceSpeed) : 0;
+    const bobTarget = state.onGround ? speedRatio : 0;
+    this.bobWeight = THREE.MathUtils.damp(this.bobWeight, bobTarget, BOB_BLEND_SPEED, delta);
+    this.bobPhase =
+      (this.bobPhase + Math.PI * 2 * this.bobFrequency * bobTarget * delta) % (Math.PI * 2);
+
+    this.stepSpring(delta);
+
+    const right = this.right
+      .set(Math.cos(state.yaw), 0, -Math.sin(state.yaw))
+      .applyQuaternion(upOrientation);
+    const lateral = state.velocity.dot(right);
+    const strafeRatio =
+      referenceSpeed > 0 ? THREE.MathUtils.clamp(lateral / referenceSpeed, -1, 1) : 0;
+    this.roll = THREE.MathUtils.damp(
+      this.roll,
+      -strafeRatio * this.strafeTilt,
+      this.tiltSpeed,
+      delta,
+    );
+  }
+
+  /** Starts the landing dip; `impactSpeed` is the touchdown speed reported by the `land` event. */
+  land(impactSpeed: number): void {
+    if (this.reducedMotion) {
+      return;
+    }
+
+    this.dipVelocity -= Math.max(0, impactSpeed) * this.landingDip;
+  }
+
+  /** World-space offset for a camera looking along `yaw`: bob sways sideways, dip moves down. */
+  getOffset(yaw: number, target: THREE.Vector3): THREE.Vector3 {
+    const amplitude = this.bobAmplitude * this.bobWeight;
+    const sway = amplitude * 0.5 * Math.sin(this.bobPhase);
+    const lift = amplitude * Math.sin(this.bobPhase * 2);
+    return target.set(sway * Math.cos(yaw), lift + this.dip, -sway * Math.sin(yaw));
+  }
+
+  getRoll(): number {
+    return this.roll;
+  }
+
+  reset(): void {
+    this.bobPhase = 0;
+    this.bobWeight = 0;
+    this.dip = 0;
+    this.dipVelocity = 0;
+    this.roll = 0;
+  }
+
+  private stepSpring(delta: number): void {
+    let remaining = delta;
+
+    while (remaining > 0) {
+      const dt = Math.min(MAX_SPRING_STEP, remaining);
+      remaining -= dt;
+      this.dipVelocity +=
+        (-this.landingStiffness * this.dip - this.landingDamping * this.dipVelocity) * dt;
+      this.dip = Math.max(-this.maxLandingDip, Math.min(0, this.dip + this.dipVelocity * dt));
+    }
+  }
+}
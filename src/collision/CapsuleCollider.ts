@@ -0,0 +1,127 @@
+import * as THREE from "three";
+import { Capsule } from "three/examples/jsm/math/Capsule.js";
+import { Octree } from "three/examples/jsm/math/Octree.js";
+
+import { DEFAULT_COLLISION_RADIUS } from "../constants.js";
+import { setAlongAxis } from "../math/axis.js";
+import type { CollisionContact, CollisionOptions, CollisionWorld } from "../types.js";
+
+const MAX_SWEEP_STEPS = 32;
+const MAX_RESOLVE_ITERATIONS = 4;
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+// Slimmer than the body so walls the player is already touching don't count as a ceiling.
+const HEADROOM_RADIUS_SCALE = 0.9;
+
+interface OctreeCapsuleHit {
+  normal: THREE.Vector3;
+  depth: number;
+}
+
+export class CapsuleCollider {
+  private octree: Octree;
+  private radius: number;
+  private readonly capsule = new Capsule();
+  private readonly probe = new Capsule();
+  private readonly step = new THREE.Vector3();
+  private readonly offset = new THREE.Vector3();
+
+  constructor(options: CollisionOptions) {
+    this.octree = CapsuleCollider.buildOctree(options.world);
+    this.radius = Math.max(0.01, options.radius ?? DEFAULT_COLLISION_RADIUS);
+  }
+
+  setWorld(world: CollisionWorld): void {
+    this.octree = CapsuleCollider.buildOctree(world);
+  }
+
+  setRadius(radius: number): void {
+    this.radius = Math.max(0.01, radius);
+  }
+
+  getRadius(): number {
+    return this.radius;
+  }
+
+  getOctree(): Octree {
+    return this.octree;
+  }
+
+  /**
+   * Sweeps a capsule spanning from the feet (`height` below the eye along `up`) to the eye
+   * (`position`) along `displacement`, pushing it out of the world and sliding along every
+   * surface hit. `position` is updated in place and every contact is appended to `contacts`.
+   */
+  move(
+    position: THREE.Vector3,
+    displacement: THREE.Vector3,
+    height: number,
+    contacts: CollisionContact[],
+    up: THREE.Vector3 = WORLD_UP,
+  ): void {
+    const radius = this.radius;
+    const eye = position.dot(up);
+    const bottom = eye - height + radius;
+    const top = Math.max(bottom, eye - radius);
+    const eyeOffset = eye - top;
+    setAlongAxis(this.capsule.start.copy(position), up, bottom);
+    setAlongAxis(this.capsule.end.copy(position), up, top);
+    this.capsule.radius = radius;
+
+    const distance = displacement.length();
+    const steps = Math.min(MAX_SWEEP_STEPS, Math.max(1, Math.ceil(distance / (radius * 0.5))));
+    this.step.copy(displacement).divideScalar(steps);
+
+    for (let i = 0; i < steps; i += 1) {
+      this.capsule.translate(this.step);
+
+      for (let iteration = 0; iteration < MAX_RESOLVE_ITERATIONS; iteration += 1) {
+        const hit = this.octree.capsuleIntersect(this.capsule) as OctreeCapsuleHit | false;
+        if (!hit || hit.depth <= 0) {
+          break;
+        }
+
+        const normal = hit.normal.clone();
+        this.capsule.translate(this.offset.copy(normal).multiplyScalar(hit.depth));
+        contacts.push({ normal, depth: hit.depth });
+
+        const into = this.step.dot(normal);
+        if (into < 0) {
+          this.step.addScaledVector(normal, -into);
+        }
+      }
+    }
+
+    setAlongAxis(position.copy(this.capsule.end), up, this.capsule.end.dot(up) + eyeOffset);
+  }
+
+  /**
+   * Checks whether the capsule standing at `position` with eye height `height` can grow to
+   * `targetHeight` (feet fixed) without the head entering the world.
+   */
+  hasHeadroom(
+    position: THREE.Vector3,
+    height: number,
+    targetHeight: number,
+    up: THREE.Vector3 = WORLD_UP,
+  ): boolean {
+    const radius = this.radius * HEADROOM_RADIUS_SCALE;
+    const eye = position.dot(up);
+    const feet = eye - height;
+    const bottom = Math.max(feet + radius, eye - radius);
+    const top = Math.max(bottom, feet + targetHeight - radius);
+    setAlongAxis(this.probe.start.copy(position), up, bottom);
+    setAlongAxis(this.probe.end.copy(position), up, top);
+    this.probe.radius = radius;
+
+    const hit = this.octree.capsuleIntersect(this.probe) as OctreeCapsuleHit | false;
+    return !hit || hit.depth <= 1e-4;
+  }
+
+  private static buildOctree(world: CollisionWorld): Octree {
+    if (world instanceof Octree) {
+      return world;
+    }
+
+    return new Octree().fromGraphNode(world);
+  }
+}
@@ -0,0 +1,91 @@
+import * as THREE from "three";
+
+import { DEFAULT_CEILING_PROBE_DISTANCE, DEFAULT_GROUND_PROBE_DISTANCE } from "../constants.js";
+import type { GroundCheckFn, GroundCheckResult, RaycastGroundCheckOptions } from "../types.js";
+
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+/** `userData.surface` of the hit object or its closest ancestor that has one. */
+const findSurface = (object: THREE.Object3D): string | undefined => {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    const surface: unknown = current.userData["surface"];
+    if (typeof surface === "string") {
+      return surface;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Builds a `groundCheckFn` that casts a ray from the eye straight down (against the
+ * controller's up axis) into `objects`.
+ * The player counts as grounded when the surface is within `maxDistance` below the feet
+ * (or above them, e.g. when stepping up), and the hit height becomes the new floor; a string
+ * `userData.surface` on the mesh (or a parent) is reported as the surface type. A second
+ * ray up to `ceilingDistance` above the eye reports the ceiling for the crouch headroom check.
+ */
+export const createRaycastGroundCheck = (
+  objects: THREE.Object3D | THREE.Object3D[],
+  options: RaycastGroundCheckOptions = {},
+): GroundCheckFn => {
+  const targets = Array.isArray(objects) ? objects : [objects];
+  const maxDistance = Math.max(0, options.maxDistance ?? DEFAULT_GROUND_PROBE_DISTANCE);
+  const ceilingDistance = Math.max(0, options.ceilingDistance ?? DEFAULT_CEILING_PROBE_DISTANCE);
+  const recursive = options.recursive ?? true;
+  const raycaster = new THREE.Raycaster();
+  const intersections: THREE.Intersection[] = [];
+  const down = new THREE.Vector3();
+
+  if (options.layers instanceof THREE.Layers) {
+    raycaster.layers.mask = options.layers.mask;
+  } else if (options.layers !== undefined) {
+    raycaster.layers.set(options.layers);
+  }
+
+  const findCeiling = (position: THREE.Vector3, up: THREE.Vector3): number | undefined => {
+    if (ceilingDistance <= 0) {
+      return undefined;
+    }
+
+    raycaster.set(position, up);
+    raycaster.far = ceilingDistance;
+    intersections.length = 0;
+    raycaster.intersectObjects(targets, recursive, intersections);
+    return intersections[0]?.point.dot(up);
+  };
+
+  return (state, _delta, height, up = WORLD_UP): GroundCheckResult => {
+    const ceilingHeight = findCeiling(state.position, up);
+    const ceiling = ceilingHeight !== undefined ? { ceilingHeight } : {};
+
+    raycaster.set(state.position, down.copy(up).negate());
+    raycaster.far = height + maxDistance;
+    intersections.length = 0;
+    raycaster.intersectObjects(targets, recursive, intersections);
+
+    const hit = intersections[0];
+    if (!hit) {
+      return { onGround: false, groundNormal: null, ...ceiling };
+    }
+
+    const groundNormal = hit.face
+      ? hit.face.normal.clone().transformDirection(hit.object.matrixWorld)
+      : up.clone();
+    const groundHeight = hit.point.dot(up);
+    const surface = findSurface(hit.object);
+    const distanceBelowFeet = state.position.dot(up) - height - groundHeight;
+    const onGround =
+      state.velocity.dot(up) > 0 ? distanceBelowFeet <= 0 : distanceBelowFeet <= maxDistance;
+
+    return {
+      onGround,
+      groundNormal,
+      groundHeight,
+      groundPoint: hit.point.clone(),
+      groundObject: hit.object,
+      ...(surface !== undefined ? { surface } : {}),
+      ...ceiling,
+    };
+  };
+};
@@ -1,17 +1,96 @@
-import type { KeyBindings, PlayerConfig } from "./types.js";
+import type {
+  GamepadBindings,
+  KeyBindings,
+  MovementAction,
+  MovementModel,
+  MovementPreset,
+  PlayerConfig,
+  TouchJoystickZone,
+} from "./types.js";
+
+export const MOVEMENT_PRESETS: Readonly<Record<MovementPreset, Readonly<MovementModel>>> = {
+  instant: {
+    groundAcceleration: Infinity,
+    groundDeceleration: Infinity,
+    airAcceleration: Infinity,
+    airControl: 1,
+    maxHorizontalSpeed: Infinity,
+    airDrag: Infinity,
+  },
+  smooth: {
+    groundAcceleration: 60,
+    groundDeceleration: 45,
+    airAcceleration: 30,
+    airControl: 0.5,
+    maxHorizontalSpeed: Infinity,
+    airDrag: 0.5,
+  },
+  weighty: {
+    groundAcceleration: 25,
+    groundDeceleration: 18,
+    airAcceleration: 10,
+    airControl: 0.3,
+    maxHorizontalSpeed: Infinity,
+    airDrag: 0.2,
+  },
+};
 
 export const DEFAULT_PLAYER_CONFIG: PlayerConfig = {
   height: 1.6,
   moveSpeed: 5,
   jumpSpeed: 8,
   gravity: 20,
+  ...MOVEMENT_PRESETS.instant,
 };
 
 export const DEFAULT_LOOK_SENSITIVITY = 0.0025;
+export const DEFAULT_LOOK_ACCELERATION_LIMIT = 4;
 export const DEFAULT_MAX_PITCH = Math.PI / 2 - 0.01;
 export const DEFAULT_SPRINT_MULTIPLIER = 1.5;
 export const DEFAULT_CROUCH_HEIGHT_RATIO = 0.6;
 export const DEFAULT_CROUCH_SPEED_MULTIPLIER = 0.6;
+export const DEFAULT_COLLISION_RADIUS = 0.35;
+export const DEFAULT_WALKABLE_SLOPE_ANGLE = 45;
+export const DEFAULT_GROUND_PROBE_DISTANCE = 0.2;
+export const DEFAULT_CEILING_PROBE_DISTANCE = 2;
+export const DEFAULT_MAX_SUB_STEPS = 8;
+export const DEFAULT_UP_ALIGN_SPEED = 8;
+export const DEFAULT_FOOTSTEP_DISTANCE = 2;
+export const DEFAULT_SPRINT_STEP_SCALE = 1.3;
+export const DEFAULT_CROUCH_STEP_SCALE = 0.7;
+export const DEFAULT_LADDER_CLIMB_SPEED = 3;
+export const DEFAULT_LADDER_FACING_ANGLE = 70;
+export const DEFAULT_LADDER_PUSH_OFF = 4;
+export const DEFAULT_SWIM_SPEED = 3;
+export const DEFAULT_WATER_DRAG = 2;
+export const DEFAULT_BUOYANCY = 1.2;
+export const DEFAULT_COYOTE_TIME = 0.1;
+export const DEFAULT_JUMP_BUFFER_TIME = 0.1;
+export const DEFAULT_SLIDE_FRICTION = 0.2;
+export const DEFAULT_MAX_STAMINA = 100;
+export const DEFAULT_STAMINA_DRAIN_RATE = 20;
+export const DEFAULT_STAMINA_JUMP_COST = 10;
+export const DEFAULT_STAMINA_REGEN_DELAY = 1;
+export const DEFAULT_STAMINA_REGEN_RATE = 15;
+export const DEFAULT_STAMINA_EXHAUSTION_THRESHOLD = 30;
+export const CONTROLLER_SNAPSHOT_VERSION = 2;
+export const MOTOR_SNAPSHOT_VERSION = 1;
+export const DEFAULT_CORRECTION_SMOOTHING = 0.1;
+export const DEFAULT_CORRECTION_SNAP_DISTANCE = 2;
+export const DEFAULT_MAX_PENDING_COMMANDS = 256;
+
+// Order is part of the input recording format; append new actions at the end.
+export const MOVEMENT_ACTIONS: readonly MovementAction[] = [
+  "forward",
+  "backward",
+  "left",
+  "right",
+  "jump",
+  "sprint",
+  "ascend",
+  "descend",
+  "crouch",
+];
 
 export const DEFAULT_KEY_BINDINGS: KeyBindings = {
   forward: ["KeyW", "ArrowUp"],
@@ -20,4 +99,42 @@ export const DEFAULT_KEY_BINDINGS: KeyBindings = {
   right: ["KeyD", "ArrowRight"],
   jump: ["Space"],
   sprint: ["ShiftLeft", "ShiftRight"],
+  ascend: ["KeyE"],
+  descend: ["KeyQ"],
+  crouch: ["KeyC"],
+};
+
+// Indices follow the W3C "standard" gamepad mapping.
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+  forward: [12],
+  backward: [13],
+  left: [14],
+  right: [15],
+  jump: [0],
+  sprint: [10],
+  ascend: [5],
+  descend: [4],
+  crouch: [1],
+};
+
+export const DEFAULT_GAMEPAD_DEAD_ZONE = 0.15;
+export const DEFAULT_GAMEPAD_RESPONSE_CURVE = 1.5;
+export const DEFAULT_GAMEPAD_LOOK_SPEED = 3;
+
+export const DEFAULT_BOB_AMPLITUDE = 0.04;
+export const DEFAULT_BOB_FREQUENCY = 1.8;
+export const DEFAULT_LANDING_DIP = 0.2;
+export const DEFAULT_MAX_LANDING_DIP = 0.3;
+export const DEFAULT_LANDING_STIFFNESS = 120;
+export const DEFAULT_LANDING_DAMPING = 14;
+export const DEFAULT_STRAFE_TILT = 0.03;
+export const DEFAULT_TILT_SPEED = 8;
+
+export const DEFAULT_TOUCH_JOYSTICK_ZONE: TouchJoystickZone = {
+  left: 0,
+  top: 0.4,
+  width: 0.4,
+  height: 0.6,
 };
+export const DEFAULT_TOUCH_JOYSTICK_RADIUS = 60;
+export const DEFAULT_TOUCH_LOOK_SENSITIVITY = 0.005;
@@ -0,0 +1,64 @@
+export type EventListener<Args extends unknown[]> = (...args: Args) => void;
+
+type StoredListener = (...args: never) => void;
+
+/**
+ * Typed multi-listener events keyed by name, with the listener arguments given per event as a
+ * tuple. Listeners may add or remove listeners (including themselves) while being notified.
+ */
+export class EventEmitter<Events extends Record<keyof Events, unknown[]>> {
+  private readonly listeners = new Map<keyof Events, Map<StoredListener, boolean>>();
+
+  /** Adds a listener and returns a function that removes it again. */
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    return this.add(type, listener, false);
+  }
+
+  /** Like `on`, but the listener is removed before its first call. */
+  once<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    return this.add(type, listener, true);
+  }
+
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(type: K, ...args: Events[K]): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners || listeners.size === 0) {
+      return;
+    }
+
+    for (const [listener, once] of [...listeners]) {
+      if (!listeners.has(listener)) {
+        continue;
+      }
+      if (once) {
+        listeners.delete(listener);
+      }
+      (listener as EventListener<Events[K]>)(...args);
+    }
+  }
+
+  hasListeners(type: keyof Events): boolean {
+    return (this.listeners.get(type)?.size ?? 0) > 0;
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+
+  private add<K extends keyof Events>(
+    type: K,
+    listener: EventListener<Events[K]>,
+    once: boolean,
+  ): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Map();
+      this.listeners.set(type, listeners);
+    }
+    listeners.set(listener, once);
+    return () => this.off(type, listener);
+  }
+}
@@ -1,14 +1,71 @@
 export { FirstPersonController } from "./FirstPersonController.js";
 export { LookController } from "./LookController.js";
+export { CharacterMotor } from "./CharacterMotor.js";
+export { CameraEffects } from "./camera/CameraEffects.js";
+export { CapsuleCollider } from "./collision/CapsuleCollider.js";
+export { createRaycastGroundCheck } from "./collision/raycastGroundCheck.js";
+export { Footsteps } from "./movement/Footsteps.js";
+export { MOVEMENT_PRESETS } from "./constants.js";
+export { GamepadControls } from "./input/GamepadControls.js";
+export { TouchControls } from "./input/TouchControls.js";
+export { MouseLook } from "./input/MouseLook.js";
 export type {
   PlayerConfig,
+  MovementModel,
+  MovementPreset,
   KeyBindings,
   KeyBindingsOverrides,
+  GamepadBindings,
+  GamepadBindingsOverrides,
+  GamepadOptions,
+  InputSource,
+  InputVector,
+  TouchButtonAction,
+  TouchControlsOptions,
+  TouchJoystickZone,
+  CameraEffectsOptions,
   FirstPersonControllerOptions,
+  CharacterMotorOptions,
+  CharacterMotorSnapshot,
+  MotorInput,
   LookControllerOptions,
+  MouseLookOptions,
+  MouseLookSnapshot,
   LookChangeCallback,
+  ControllerEventMap,
+  ControllerEventListener,
+  JumpEvent,
+  JumpCallback,
+  JumpState,
+  LandEvent,
+  Foot,
+  FootstepEvent,
+  FootstepOptions,
   ControllerState,
+  ControllerSnapshot,
+  ControllerSnapshotOptions,
   GravityFn,
   GroundCheckFn,
+  GroundCheckResult,
+  GroundInfo,
+  RaycastGroundCheckOptions,
+  CollisionOptions,
+  CollisionContact,
+  CollisionWorld,
+  LadderVolume,
+  LadderOptions,
+  WaterVolume,
+  WaterSurfaceFn,
   MovementAction,
+  StaminaOptions,
+  StaminaState,
+  StaminaSnapshot,
+  MovementMode,
+  ActionMode,
+  InputRecording,
+  InputCommand,
+  PredictionOptions,
+  RecordedFrame,
+  RecordedOptions,
+  RecordedOptionsEvent,
 } from "./types.js";
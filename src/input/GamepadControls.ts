@@ -0,0 +1,172 @@
+import {
+  DEFAULT_GAMEPAD_BINDINGS,
+  DEFAULT_GAMEPAD_DEAD_ZONE,
+  DEFAULT_GAMEPAD_LOOK_SPEED,
+  DEFAULT_GAMEPAD_RESPONSE_CURVE,
+} from "../constants.js";
+import type {
+  GamepadBindings,
+  GamepadBindingsOverrides,
+  GamepadOptions,
+  InputSource,
+  InputVector,
+  MovementAction,
+} from "../types.js";
+
+export class GamepadControls implements InputSource {
+  private bindings: GamepadBindings;
+  private index: number | undefined;
+  private deadZone: number;
+  private responseCurve: number;
+  private lookSpeed: number;
+  private invertX: boolean;
+  private invertY: boolean;
+  private readonly move: InputVector = { x: 0, y: 0 };
+  private readonly look: InputVector = { x: 0, y: 0 };
+  private readonly pressedButtons = new Set<number>();
+  private connected = false;
+
+  constructor(options: GamepadOptions = {}) {
+    this.bindings = GamepadControls.cloneBindings(DEFAULT_GAMEPAD_BINDINGS);
+    this.index = undefined;
+    this.deadZone = DEFAULT_GAMEPAD_DEAD_ZONE;
+    this.responseCurve = DEFAULT_GAMEPAD_RESPONSE_CURVE;
+    this.lookSpeed = DEFAULT_GAMEPAD_LOOK_SPEED;
+    this.invertX = false;
+    this.invertY = false;
+    this.updateOptions(options);
+  }
+
+  updateOptions(options: GamepadOptions): void {
+    if (options.index !== undefined) this.index = Math.max(0, Math.floor(options.index));
+    if (options.deadZone !== undefined) {
+      this.deadZone = Math.max(0, Math.min(0.99, options.deadZone));
+    }
+    if (options.responseCurve !== undefined) {
+      this.responseCurve = Math.max(0.1, options.responseCurve);
+    }
+    if (options.lookSpeed !== undefined) this.lookSpeed = Math.max(0, options.lookSpeed);
+    if (options.invertX !== undefined) this.invertX = options.invertX;
+    if (options.invertY !== undefined) this.invertY = options.invertY;
+    if (options.bindings) this.updateBindings(options.bindings);
+  }
+
+  updateBindings(overrides: GamepadBindingsOverrides): void {
+    const updated = GamepadControls.cloneBindings(this.bindings);
+
+    for (const key of Object.keys(overrides) as MovementAction[]) {
+      const buttons = overrides[key];
+      if (buttons) {
+        updated[key] = [...buttons];
+      }
+    }
+
+    this.bindings = updated;
+  }
+
+  /**
+   * Reads the current gamepad snapshot. Browsers only refresh gamepad state when
+   * `navigator.getGamepads()` is called, so this must run once per frame.
+   */
+  poll(): void {
+    const gamepad = this.findGamepad();
+    this.pressedButtons.clear();
+
+    if (!gamepad) {
+      this.connected = false;
+      this.move.x = this.move.y = 0;
+      this.look.x = this.look.y = 0;
+      return;
+    }
+
+    this.connected = true;
+    gamepad.buttons.forEach((button, index) => {
+      if (button.pressed) {
+        this.pressedButtons.add(index);
+      }
+    });
+
+    this.applyStick(this.move, gamepad.axes[0] ?? 0, -(gamepad.axes[1] ?? 0));
+    this.applyStick(this.look, gamepad.axes[2] ?? 0, gamepad.axes[3] ?? 0);
+    if (this.invertX) this.look.x = -this.look.x;
+    if (this.invertY) this.look.y = -this.look.y;
+  }
+
+  reset(): void {
+    this.pressedButtons.clear();
+    this.move.x = this.move.y = 0;
+    this.look.x = this.look.y = 0;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  isActionPressed(action: MovementAction): boolean {
+    return this.bindings[action]?.some((button) => this.pressedButtons.has(button)) ?? false;
+  }
+
+  /** Analog movement with x = strafe right and y = forward, each in [-1, 1]. */
+  getMoveVector(): Readonly<InputVector> {
+    return this.move;
+  }
+
+  /** Look rate in radians/second for yaw (x) and pitch (y) at the current stick deflection. */
+  getLookRate(): InputVector {
+    return { x: this.look.x * this.lookSpeed, y: this.look.y * this.lookSpeed };
+  }
+
+  consumeLookDelta(delta: number): InputVector {
+    return { x: this.look.x * this.lookSpeed * delta, y: this.look.y * this.lookSpeed * delta };
+  }
+
+  private applyStick(target: InputVector, x: number, y: number): void {
+    const magnitude = Math.min(1, Math.hypot(x, y));
+
+    if (magnitude <= this.deadZone) {
+      target.x = 0;
+      target.y = 0;
+      return;
+    }
+
+    const scaled = (magnitude - this.deadZone) / (1 - this.deadZone);
+    const curved = Math.pow(scaled, this.responseCurve);
+    const length = Math.hypot(x, y);
+    target.x = (x / length) * curved;
+    target.y = (y / length) * curved;
+  }
+
+  private findGamepad(): Gamepad | null {
+    if (typeof navigator === "undefined" || typeof navigator.getGamepads !== "function") {
+      return null;
+    }
+
+    const gamepads = navigator.getGamepads();
+    if (this.index !== undefined) {
+      const gamepad = gamepads[this.index];
+      return gamepad?.connected ? gamepad : null;
+    }
+
+    for (const gamepad of gamepads) {
+      if (gamepad?.connected) {
+        return gamepad;
+      }
+    }
+
+    return null;
+  }
+
+  private static cloneBindings(bindings: GamepadBindings): GamepadBindings {
+    return {
+      forward: [...bindings.forward],
+      backward: [...bindings.backward],
+      left: [...bindings.left],
+      right: [...bindings.right],
+      jump: [...bindings.jump],
+      sprint: [...bindings.sprint],
+      ascend: [...bindings.ascend],
+      descend: [...bindings.descend],
+      crouch: [...bindings.crouch],
+    };
+  }
+}
@@ -74,6 +74,10 @@ export class KeyboardControls {
     return this.keyBindings[action]?.some((code) => this.pressedKeys.has(code)) ?? false;
   }
 
+  getBindings(): KeyBindings {
+    return KeyboardControls.cloneBindings(this.keyBindings);
+  }
+
   updateBindings(overrides: KeyBindingsOverrides): void {
     const updated = KeyboardControls.cloneBindings(this.keyBindings);
 
@@ -116,6 +120,9 @@ export class KeyboardControls {
       right: [...bindings.right],
       jump: [...bindings.jump],
       sprint: [...bindings.sprint],
+      ascend: [...bindings.ascend],
+      descend: [...bindings.descend],
+      crouch: [...bindings.crouch],
     };
   }
 }
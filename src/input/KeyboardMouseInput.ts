@@ -0,0 +1,111 @@
+import { KeyboardControls } from "./KeyboardControls.js";
+import type { MouseLook } from "./MouseLook.js";
+import type {
+  InputSource,
+  InputVector,
+  KeyBindings,
+  KeyBindingsOverrides,
+  MovementAction,
+} from "../types.js";
+
+interface KeyboardMouseInputOptions {
+  bindings: KeyBindings;
+  mouseLook: MouseLook;
+  canLook: (event: MouseEvent) => boolean;
+  onLook?: () => void;
+}
+
+/**
+ * Default input source: WASD-style key bindings plus relative mouse movement. Mouse moves go
+ * through the shared `MouseLook` pipeline until consumed; unless look smoothing is on,
+ * `onLook` fires on every accepted move so the owner can apply it without waiting for the
+ * next frame.
+ */
+export class KeyboardMouseInput implements InputSource {
+  private readonly keyboard: KeyboardControls;
+  private readonly canLook: (event: MouseEvent) => boolean;
+  private readonly onLook: (() => void) | undefined;
+  private readonly mouseLook: MouseLook;
+  private readonly move: InputVector = { x: 0, y: 0 };
+  private mouseAttached = false;
+
+  private readonly mouseMoveHandler = (event: MouseEvent): void => {
+    if (!this.canLook(event)) {
+      return;
+    }
+
+    this.mouseLook.addMovement(event.movementX, event.movementY, event.timeStamp);
+    if (!this.mouseLook.isSmoothing()) {
+      this.onLook?.();
+    }
+  };
+
+  constructor(target: HTMLElement, options: KeyboardMouseInputOptions) {
+    this.keyboard = new KeyboardControls(options.bindings, target);
+    this.mouseLook = options.mouseLook;
+    this.canLook = options.canLook;
+    this.onLook = options.onLook;
+  }
+
+  attachMouse(): void {
+    if (this.mouseAttached) {
+      return;
+    }
+
+    document.addEventListener("mousemove", this.mouseMoveHandler);
+    this.mouseAttached = true;
+  }
+
+  attachKeyboard(): void {
+    this.keyboard.attach();
+  }
+
+  detachKeyboard(): void {
+    this.keyboard.detach();
+  }
+
+  setPointerLockActive(active: boolean): void {
+    this.keyboard.setPointerLockActive(active);
+  }
+
+  getBindings(): KeyBindings {
+    return this.keyboard.getBindings();
+  }
+
+  updateBindings(overrides: KeyBindingsOverrides): void {
+    this.keyboard.updateBindings(overrides);
+  }
+
+  getMoveVector(): Readonly<InputVector> {
+    const x =
+      (this.keyboard.isActionPressed("right") ? 1 : 0) -
+      (this.keyboard.isActionPressed("left") ? 1 : 0);
+    const y =
+      (this.keyboard.isActionPressed("forward") ? 1 : 0) -
+      (this.keyboard.isActionPressed("backward") ? 1 : 0);
+    const length = Math.hypot(x, y);
+    this.move.x = length > 0 ? x / length : 0;
+    this.move.y = length > 0 ? y / length : 0;
+    return this.move;
+  }
+
+  consumeLookDelta(delta = 0): InputVector {
+    return this.mouseLook.consume(delta);
+  }
+
+  isActionPressed(action: MovementAction): boolean {
+    return this.keyboard.isActionPressed(action);
+  }
+
+  reset(): void {
+    this.keyboard.reset();
+    this.mouseLook.reset();
+  }
+
+  dispose(): void {
+    this.keyboard.dispose();
+    document.removeEventListener("mousemove", this.mouseMoveHandler);
+    this.mouseAttached = false;
+    this.mouseLook.reset();
+  }
+}
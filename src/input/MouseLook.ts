@@ -0,0 +1,163 @@
+import { DEFAULT_LOOK_ACCELERATION_LIMIT, DEFAULT_LOOK_SENSITIVITY } from "../constants.js";
+import type { InputVector, MouseLookOptions, MouseLookSnapshot } from "../types.js";
+import { decodeNumber, encodeNumber } from "../utils/encoding.js";
+
+const MIN_SENSITIVITY = 0.0001;
+// Mouse moves further apart than this start a new motion at zero speed.
+const MAX_MOVE_GAP_MS = 100;
+// Smoothed look input below this (radians) is released at once instead of trailing forever.
+const SETTLE_THRESHOLD = 1e-6;
+
+/**
+ * Look pipeline shared by `FirstPersonController` and `LookController`: turns raw mouse counts
+ * into yaw/pitch deltas in radians with per-axis sensitivity, invert-Y and an acceleration
+ * curve on mouse speed. With smoothing the rotation is released over the following frames
+ * instead of all at once.
+ */
+export class MouseLook {
+  private sensitivity: number;
+  private sensitivityX = 1;
+  private sensitivityY = 1;
+  private invertY = false;
+  private smoothing = 0;
+  private acceleration = 0;
+  private accelerationExponent = 1;
+  private accelerationLimit = DEFAULT_LOOK_ACCELERATION_LIMIT;
+  // Rotation added by mouse moves but not yet handed out by consume().
+  private readonly pending: InputVector = { x: 0, y: 0 };
+  private lastMoveTime: number | undefined;
+
+  constructor(sensitivity = DEFAULT_LOOK_SENSITIVITY, options: MouseLookOptions = {}) {
+    this.sensitivity = Math.max(MIN_SENSITIVITY, sensitivity);
+    this.updateOptions(options);
+  }
+
+  updateOptions(options: MouseLookOptions): void {
+    if (options.degreesPerCount !== undefined) {
+      this.setSensitivity((options.degreesPerCount * Math.PI) / 180);
+    }
+    if (options.sensitivityX !== undefined) {
+      this.sensitivityX = Math.max(0, options.sensitivityX);
+    }
+    if (options.sensitivityY !== undefined) {
+      this.sensitivityY = Math.max(0, options.sensitivityY);
+    }
+    if (options.invertY !== undefined) {
+      this.invertY = options.invertY;
+    }
+    if (options.smoothing !== undefined) {
+      this.smoothing = Math.max(0, options.smoothing);
+    }
+    if (options.acceleration !== undefined) {
+      this.acceleration = Math.max(0, options.acceleration);
+    }
+    if (options.accelerationExponent !== undefined) {
+      this.accelerationExponent = Math.max(0.01, options.accelerationExponent);
+    }
+    if (options.accelerationLimit !== undefined) {
+      this.accelerationLimit = Math.max(1, options.accelerationLimit);
+    }
+  }
+
+  /** Current settings, with `degreesPerCount` already folded into `getSensitivity()`. */
+  getOptions(): MouseLookOptions {
+    return {
+      sensitivityX: this.sensitivityX,
+      sensitivityY: this.sensitivityY,
+      invertY: this.invertY,
+      smoothing: this.smoothing,
+      acceleration: this.acceleration,
+      accelerationExponent: this.accelerationExponent,
+      accelerationLimit: this.accelerationLimit,
+    };
+  }
+
+  serialize(): MouseLookSnapshot {
+    return {
+      sensitivityX: encodeNumber(this.sensitivityX),
+      sensitivityY: encodeNumber(this.sensitivityY),
+      invertY: this.invertY,
+      smoothing: encodeNumber(this.smoothing),
+      acceleration: encodeNumber(this.acceleration),
+      accelerationExponent: encodeNumber(this.accelerationExponent),
+      accelerationLimit: encodeNumber(this.accelerationLimit),
+    };
+  }
+
+  restore(snapshot: MouseLookSnapshot): void {
+    this.updateOptions({
+      sensitivityX: decodeNumber(snapshot.sensitivityX),
+      sensitivityY: decodeNumber(snapshot.sensitivityY),
+      invertY: snapshot.invertY,
+      smoothing: decodeNumber(snapshot.smoothing),
+      acceleration: decodeNumber(snapshot.acceleration),
+      accelerationExponent: decodeNumber(snapshot.accelerationExponent),
+      accelerationLimit: decodeNumber(snapshot.accelerationLimit),
+    });
+  }
+
+  /** Base sensitivity in radians per mouse count. */
+  setSensitivity(value: number): void {
+    this.sensitivity = Math.max(MIN_SENSITIVITY, value);
+  }
+
+  getSensitivity(): number {
+    return this.sensitivity;
+  }
+
+  /** Whether moves wait for `consume(delta)` each frame rather than applying immediately. */
+  isSmoothing(): boolean {
+    return this.smoothing > 0;
+  }
+
+  /** Adds one mouse move in counts; `time` in milliseconds (e.g. `event.timeStamp`) sets its speed. */
+  addMovement(movementX: number, movementY: number, time: number): void {
+    const gap = this.lastMoveTime === undefined ? Infinity : time - this.lastMoveTime;
+    this.lastMoveTime = time;
+    const speed = gap <= MAX_MOVE_GAP_MS ? Math.hypot(movementX, movementY) / Math.max(1, gap) : 0;
+    const scale = this.sensitivity * this.getAccelerationGain(speed);
+
+    this.pending.x += movementX * scale * this.sensitivityX;
+    this.pending.y += movementY * scale * this.sensitivityY * (this.invertY ? -1 : 1);
+  }
+
+  /** Sensitivity multiplier at a mouse speed in counts per millisecond. */
+  getAccelerationGain(speed: number): number {
+    if (this.acceleration <= 0 || speed <= 0) {
+      return 1;
+    }
+
+    const gain = 1 + Math.pow(this.acceleration * speed, this.accelerationExponent);
+    return Math.min(this.accelerationLimit, gain);
+  }
+
+  /**
+   * Rotation to apply now, with positive x turning right and positive y looking down: all
+   * pending input, or with smoothing the share due after `delta` seconds.
+   */
+  consume(delta: number): InputVector {
+    const share = this.smoothing > 0 ? 1 - Math.exp(-Math.max(0, delta) / this.smoothing) : 1;
+    const look = { x: this.pending.x * share, y: this.pending.y * share };
+    this.pending.x -= look.x;
+    this.pending.y -= look.y;
+
+    if (
+      Math.abs(this.pending.x) < SETTLE_THRESHOLD &&
+      Math.abs(this.pending.y) < SETTLE_THRESHOLD
+    ) {
+      look.x += this.pending.x;
+      look.y += this.pending.y;
+      this.pending.x = 0;
+      this.pending.y = 0;
+    }
+
+    return look;
+  }
+
+  /** Drops pending rotation, e.g. when the pointer lock is released. */
+  reset(): void {
+    this.pending.x = 0;
+    this.pending.y = 0;
+    this.lastMoveTime = undefined;
+  }
+}
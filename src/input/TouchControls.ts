@@ -0,0 +1,250 @@
+import {
+  DEFAULT_TOUCH_JOYSTICK_RADIUS,
+  DEFAULT_TOUCH_JOYSTICK_ZONE,
+  DEFAULT_TOUCH_LOOK_SENSITIVITY,
+} from "../constants.js";
+import type {
+  InputSource,
+  InputVector,
+  MovementAction,
+  TouchButtonAction,
+  TouchControlsOptions,
+  TouchJoystickZone,
+} from "../types.js";
+
+interface ButtonBinding {
+  action: TouchButtonAction;
+  element: HTMLElement;
+  down: (event: PointerEvent) => void;
+  up: (event: PointerEvent) => void;
+}
+
+export class TouchControls implements InputSource {
+  private readonly domElement: HTMLElement;
+  private zone: TouchJoystickZone;
+  private joystickRadius: number;
+  private lookSensitivity: number;
+  private buttons: ButtonBinding[] = [];
+  private readonly pressedActions = new Map<MovementAction | TouchButtonAction, Set<number>>();
+  private readonly move: InputVector = { x: 0, y: 0 };
+  private readonly lookDelta: InputVector = { x: 0, y: 0 };
+  private joystickPointer: number | undefined;
+  private readonly joystickOrigin = { x: 0, y: 0 };
+  private readonly lookPointers = new Map<number, { x: number; y: number }>();
+  private attached = false;
+  private previousTouchAction = "";
+
+  private readonly pointerDownHandler = (event: PointerEvent): void => {
+    if (event.pointerType === "mouse") {
+      return;
+    }
+
+    if (this.joystickPointer === undefined && this.isInJoystickZone(event)) {
+      this.joystickPointer = event.pointerId;
+      this.joystickOrigin.x = event.clientX;
+      this.joystickOrigin.y = event.clientY;
+      this.move.x = 0;
+      this.move.y = 0;
+    } else {
+      this.lookPointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    }
+
+    this.capturePointer(event.pointerId);
+    event.preventDefault();
+  };
+
+  private readonly pointerMoveHandler = (event: PointerEvent): void => {
+    if (event.pointerId === this.joystickPointer) {
+      const dx = event.clientX - this.joystickOrigin.x;
+      const dy = event.clientY - this.joystickOrigin.y;
+      const distance = Math.hypot(dx, dy);
+      const scale = distance > this.joystickRadius ? this.joystickRadius / distance : 1;
+      this.move.x = (dx * scale) / this.joystickRadius;
+      this.move.y = (-dy * scale) / this.joystickRadius;
+      return;
+    }
+
+    const last = this.lookPointers.get(event.pointerId);
+    if (!last) {
+      return;
+    }
+
+    this.lookDelta.x += event.clientX - last.x;
+    this.lookDelta.y += event.clientY - last.y;
+    last.x = event.clientX;
+    last.y = event.clientY;
+  };
+
+  private readonly pointerUpHandler = (event: PointerEvent): void => {
+    if (event.pointerId === this.joystickPointer) {
+      this.joystickPointer = undefined;
+      this.move.x = 0;
+      this.move.y = 0;
+    }
+
+    this.lookPointers.delete(event.pointerId);
+  };
+
+  constructor(domElement: HTMLElement, options: TouchControlsOptions = {}) {
+    this.domElement = domElement;
+    this.zone = { ...DEFAULT_TOUCH_JOYSTICK_ZONE };
+    this.joystickRadius = DEFAULT_TOUCH_JOYSTICK_RADIUS;
+    this.lookSensitivity = DEFAULT_TOUCH_LOOK_SENSITIVITY;
+    this.updateOptions(options);
+  }
+
+  attach(): void {
+    if (this.attached) {
+      return;
+    }
+
+    this.domElement.addEventListener("pointerdown", this.pointerDownHandler);
+    this.domElement.addEventListener("pointermove", this.pointerMoveHandler);
+    this.domElement.addEventListener("pointerup", this.pointerUpHandler);
+    this.domElement.addEventListener("pointercancel", this.pointerUpHandler);
+    this.previousTouchAction = this.domElement.style.touchAction;
+    this.domElement.style.touchAction = "none";
+    this.buttons.forEach((binding) => this.attachButton(binding));
+    this.attached = true;
+  }
+
+  detach(): void {
+    if (!this.attached) {
+      return;
+    }
+
+    this.domElement.removeEventListener("pointerdown", this.pointerDownHandler);
+    this.domElement.removeEventListener("pointermove", this.pointerMoveHandler);
+    this.domElement.removeEventListener("pointerup", this.pointerUpHandler);
+    this.domElement.removeEventListener("pointercancel", this.pointerUpHandler);
+    this.domElement.style.touchAction = this.previousTouchAction;
+    this.buttons.forEach((binding) => this.detachButton(binding));
+    this.attached = false;
+  }
+
+  dispose(): void {
+    this.detach();
+    this.reset();
+  }
+
+  reset(): void {
+    this.joystickPointer = undefined;
+    this.lookPointers.clear();
+    this.pressedActions.clear();
+    this.move.x = this.move.y = 0;
+    this.lookDelta.x = this.lookDelta.y = 0;
+  }
+
+  updateOptions(options: TouchControlsOptions): void {
+    if (options.joystickZone) this.zone = { ...this.zone, ...options.joystickZone };
+    if (options.joystickRadius !== undefined) {
+      this.joystickRadius = Math.max(1, options.joystickRadius);
+    }
+    if (options.lookSensitivity !== undefined) {
+      this.lookSensitivity = Math.max(0, options.lookSensitivity);
+    }
+    if (options.buttons) this.setButtons(options.buttons);
+  }
+
+  setButtons(buttons: Partial<Record<TouchButtonAction, HTMLElement>>): void {
+    this.buttons.forEach((binding) => this.detachButton(binding));
+    this.pressedActions.clear();
+    this.buttons = [];
+
+    for (const action of Object.keys(buttons) as TouchButtonAction[]) {
+      const element = buttons[action];
+      if (!element) {
+        continue;
+      }
+
+      const binding: ButtonBinding = {
+        action,
+        element,
+        down: (event) => {
+          event.stopPropagation();
+          event.preventDefault();
+          this.getPointers(action).add(event.pointerId);
+        },
+        up: (event) => {
+          this.getPointers(action).delete(event.pointerId);
+        },
+      };
+      this.buttons.push(binding);
+      if (this.attached) {
+        this.attachButton(binding);
+      }
+    }
+  }
+
+  isActionPressed(action: MovementAction | TouchButtonAction): boolean {
+    return (this.pressedActions.get(action)?.size ?? 0) > 0;
+  }
+
+  /** Joystick deflection with x = strafe right and y = forward, each in [-1, 1]. */
+  getMoveVector(): Readonly<InputVector> {
+    return this.move;
+  }
+
+  /** Returns the drag-to-look rotation (radians) accumulated since the last call. */
+  consumeLookDelta(): InputVector {
+    const delta = {
+      x: this.lookDelta.x * this.lookSensitivity,
+      y: this.lookDelta.y * this.lookSensitivity,
+    };
+    this.lookDelta.x = 0;
+    this.lookDelta.y = 0;
+    return delta;
+  }
+
+  private getPointers(action: TouchButtonAction): Set<number> {
+    let pointers = this.pressedActions.get(action);
+    if (!pointers) {
+      pointers = new Set();
+      this.pressedActions.set(action, pointers);
+    }
+    return pointers;
+  }
+
+  private attachButton(binding: ButtonBinding): void {
+    binding.element.style.touchAction = "none";
+    binding.element.addEventListener("pointerdown", binding.down);
+    binding.element.addEventListener("pointerup", binding.up);
+    binding.element.addEventListener("pointercancel", binding.up);
+    binding.element.addEventListener("pointerleave", binding.up);
+  }
+
+  private detachButton(binding: ButtonBinding): void {
+    binding.element.removeEventListener("pointerdown", binding.down);
+    binding.element.removeEventListener("pointerup", binding.up);
+    binding.element.removeEventListener("pointercancel", binding.up);
+    binding.element.removeEventListener("pointerleave", binding.up);
+  }
+
+  private isInJoystickZone(event: PointerEvent): boolean {
+    const rect = this.domElement.getBoundingClientRect();
+    if (rect.width <= 0 || rect.height <= 0) {
+      return false;
+    }
+
+    const x = (event.clientX - rect.left) / rect.width;
+    const y = (event.clientY - rect.top) / rect.height;
+    return (
+      x >= this.zone.left &&
+      x <= this.zone.left + this.zone.width &&
+      y >= this.zone.top &&
+      y <= this.zone.top + this.zone.height
+    );
+  }
+
+  private capturePointer(pointerId: number): void {
+    if (typeof this.domElement.setPointerCapture !== "function") {
+      return;
+    }
+
+    try {
+      this.domElement.setPointerCapture(pointerId);
+    } catch {
+      // Synthetic pointers (e.g. in tests) cannot be captured.
+    }
+  }
+}
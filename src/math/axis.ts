@@ -0,0 +1,27 @@
+import * as THREE from "three";
+
+const boxCenter = new THREE.Vector3();
+const boxExtent = new THREE.Vector3();
+
+/**
+ * Sets the component of `vector` along the unit `axis` to `value`, leaving the rest untouched.
+ * Removing the old component before adding the new one keeps the result identical to
+ * assigning `.y` directly when `axis` is the world up axis.
+ */
+export const setAlongAxis = (
+  vector: THREE.Vector3,
+  axis: THREE.Vector3,
+  value: number,
+): THREE.Vector3 => vector.addScaledVector(axis, -vector.dot(axis)).addScaledVector(axis, value);
+
+/** Highest point of `box` along the unit `axis`, i.e. `box.max.y` for world y. */
+export const boxTopAlong = (box: THREE.Box3, axis: THREE.Vector3): number => {
+  box.getCenter(boxCenter);
+  box.getSize(boxExtent).multiplyScalar(0.5);
+  return (
+    boxCenter.dot(axis) +
+    boxExtent.x * Math.abs(axis.x) +
+    boxExtent.y * Math.abs(axis.y) +
+    boxExtent.z * Math.abs(axis.z)
+  );
+};
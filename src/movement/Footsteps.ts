@@ -0,0 +1,62 @@
+import {
+  DEFAULT_CROUCH_STEP_SCALE,
+  DEFAULT_FOOTSTEP_DISTANCE,
+  DEFAULT_SPRINT_STEP_SCALE,
+} from "../constants.js";
+import type { Foot, FootstepOptions } from "../types.js";
+
+const START_PHASE = 0.5;
+
+/**
+ * Distance-based footstep cadence: one step per `stepDistance` metres walked on the ground,
+ * alternating feet. Sprinting and crouching scale the stride.
+ */
+export class Footsteps {
+  private stepDistance: number;
+  private sprintStepScale: number;
+  private crouchStepScale: number;
+  // Progress towards the next step as a fraction of the current stride.
+  private phase = START_PHASE;
+  private nextFoot: Foot = "left";
+
+  constructor(options: FootstepOptions = {}) {
+    this.stepDistance = DEFAULT_FOOTSTEP_DISTANCE;
+    this.sprintStepScale = DEFAULT_SPRINT_STEP_SCALE;
+    this.crouchStepScale = DEFAULT_CROUCH_STEP_SCALE;
+    this.updateOptions(options);
+  }
+
+  updateOptions(options: FootstepOptions): void {
+    if (options.stepDistance !== undefined) {
+      this.stepDistance = Math.max(0.01, options.stepDistance);
+    }
+    if (options.sprintStepScale !== undefined) {
+      this.sprintStepScale = Math.max(0.01, options.sprintStepScale);
+    }
+    if (options.crouchStepScale !== undefined) {
+      this.crouchStepScale = Math.max(0.01, options.crouchStepScale);
+    }
+  }
+
+  /** Adds the ground distance of one tick; returns the foot that stepped, if any. */
+  advance(distance: number, sprinting: boolean, crouching: boolean): Foot | undefined {
+    let stride = this.stepDistance;
+    if (sprinting) stride *= this.sprintStepScale;
+    if (crouching) stride *= this.crouchStepScale;
+
+    this.phase += Math.max(0, distance) / stride;
+    if (this.phase < 1) {
+      return undefined;
+    }
+
+    this.phase = Math.min(this.phase - 1, START_PHASE);
+    const foot = this.nextFoot;
+    this.nextFoot = foot === "left" ? "right" : "left";
+    return foot;
+  }
+
+  /** Called when the character stops or leaves the ground: the next walk starts mid-stride. */
+  reset(): void {
+    this.phase = START_PHASE;
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  DEFAULT_MAX_STAMINA,
+  DEFAULT_STAMINA_DRAIN_RATE,
+  DEFAULT_STAMINA_EXHAUSTION_THRESHOLD,
+  DEFAULT_STAMINA_JUMP_COST,
+  DEFAULT_STAMINA_REGEN_DELAY,
+  DEFAULT_STAMINA_REGEN_RATE,
+} from "../constants.js";
+import type { StaminaOptions, StaminaSnapshot, StaminaState } from "../types.js";
+import { decodeNumber, encodeNumber } from "../utils/encoding.js";
+import { hasOwn } from "../utils/hasOwn.js";
+
+/**
+ * Sprint stamina: drains while sprinting and on jumps, regenerates after a delay, and blocks
+ * sprinting once empty until it has recovered past the exhaustion threshold.
+ */
+export class Stamina {
+  private maxStamina: number;
+  private drainRate: number;
+  private jumpCost: number;
+  private regenDelay: number;
+  private regenRate: number;
+  private exhaustionThreshold: number;
+  private current: number;
+  private exhausted = false;
+  private regenCooldown = 0;
+  private changeCallback: ((stamina: StaminaState) => void) | undefined;
+  private exhaustedCallback: ((exhausted: boolean) => void) | undefined;
+
+  constructor(options: StaminaOptions = {}) {
+    this.maxStamina = DEFAULT_MAX_STAMINA;
+    this.drainRate = DEFAULT_STAMINA_DRAIN_RATE;
+    this.jumpCost = DEFAULT_STAMINA_JUMP_COST;
+    this.regenDelay = DEFAULT_STAMINA_REGEN_DELAY;
+    this.regenRate = DEFAULT_STAMINA_REGEN_RATE;
+    this.exhaustionThreshold = DEFAULT_STAMINA_EXHAUSTION_THRESHOLD;
+    this.current = this.maxStamina;
+    this.updateOptions(options);
+    this.current = this.maxStamina;
+  }
+
+  updateOptions(options: StaminaOptions): void {
+    if (options.maxStamina !== undefined) {
+      this.maxStamina = Math.max(0.01, options.maxStamina);
+      this.current = Math.min(this.current, this.maxStamina);
+    }
+    if (options.drainRate !== undefined) this.drainRate = Math.max(0, options.drainRate);
+    if (options.jumpCost !== undefined) this.jumpCost = Math.max(0, options.jumpCost);
+    if (options.regenDelay !== undefined) this.regenDelay = Math.max(0, options.regenDelay);
+    if (options.regenRate !== undefined) this.regenRate = Math.max(0, options.regenRate);
+    if (options.exhaustionThreshold !== undefined) {
+      this.exhaustionThreshold = Math.max(0, options.exhaustionThreshold);
+    }
+    if (hasOwn(options, "onChange")) this.changeCallback = options.onChange ?? undefined;
+    if (hasOwn(options, "onExhaustedChange")) {
+      this.exhaustedCallback = options.onExhaustedChange ?? undefined;
+    }
+  }
+
+  canSprint(): boolean {
+    return !this.exhausted && this.current > 0;
+  }
+
+  /** Advances one tick; `sprinting` is whether sprint was actually applied this tick. */
+  update(delta: number, sprinting: boolean): void {
+    const previous = this.current;
+
+    if (sprinting) {
+      this.spend(this.drainRate * delta);
+    } else if (this.regenCooldown > 0) {
+      this.regenCooldown = Math.max(0, this.regenCooldown - delta);
+    } else {
+      this.current = Math.min(this.maxStamina, this.current + this.regenRate * delta);
+      const threshold = Math.min(this.exhaustionThreshold, this.maxStamina);
+      if (this.exhausted && this.current >= threshold) {
+        this.setExhausted(false);
+      }
+    }
+
+    if (this.current !== previous) {
+      this.changeCallback?.(this.getState());
+    }
+  }
+
+  spendJump(): void {
+    if (this.jumpCost <= 0) {
+      return;
+    }
+
+    this.spend(this.jumpCost);
+    this.changeCallback?.(this.getState());
+  }
+
+  getState(): StaminaState {
+    return { current: this.current, max: this.maxStamina, exhausted: this.exhausted };
+  }
+
+  /** Overwrites the current value, e.g. from an authoritative server state. */
+  setState(state: StaminaState): void {
+    this.current = Math.max(0, Math.min(this.maxStamina, state.current));
+    this.exhausted = state.exhausted;
+  }
+
+  serialize(): StaminaSnapshot {
+    return {
+      maxStamina: encodeNumber(this.maxStamina),
+      drainRate: encodeNumber(this.drainRate),
+      jumpCost: encodeNumber(this.jumpCost),
+      regenDelay: encodeNumber(this.regenDelay),
+      regenRate: encodeNumber(this.regenRate),
+      exhaustionThreshold: encodeNumber(this.exhaustionThreshold),
+      current: encodeNumber(this.current),
+      exhausted: this.exhausted,
+      regenCooldown: encodeNumber(this.regenCooldown),
+    };
+  }
+
+  restore(snapshot: StaminaSnapshot): void {
+    this.updateOptions({
+      maxStamina: decodeNumber(snapshot.maxStamina),
+      drainRate: decodeNumber(snapshot.drainRate),
+      jumpCost: decodeNumber(snapshot.jumpCost),
+      regenDelay: decodeNumber(snapshot.regenDelay),
+      regenRate: decodeNumber(snapshot.regenRate),
+      exhaustionThreshold: decodeNumber(snapshot.exhaustionThreshold),
+    });
+    this.current = Math.max(0, Math.min(this.maxStamina, decodeNumber(snapshot.current)));
+    this.exhausted = snapshot.exhausted;
+    this.regenCooldown = Math.max(0, decodeNumber(snapshot.regenCooldown));
+  }
+
+  private spend(amount: number): void {
+    this.current = Math.max(0, this.current - amount);
+    this.regenCooldown = this.regenDelay;
+    if (this.current <= 0 && !this.exhausted) {
+      this.setExhausted(true);
+    }
+  }
+
+  private setExhausted(exhausted: boolean): void {
+    this.exhausted = exhausted;
+    this.exhaustedCallback?.(exhausted);
+  }
+}
@@ -0,0 +1,86 @@
+import type * as THREE from "three";
+
+import type { InputCommand, JumpState } from "../types.js";
+
+/** Motor state after a command ran that the server's `ControllerState` does not carry. */
+export interface PredictedState {
+  /** Eye height, which differs from the configured height mid-crouch. */
+  height: number;
+  jump: JumpState;
+  /** Missing when not sliding down a steep slope. */
+  slideNormal?: THREE.Vector3;
+}
+
+interface PendingCommand {
+  command: InputCommand;
+  /** Used as the starting point when re-simulating the commands that follow. */
+  state: PredictedState;
+}
+
+/** Client-side history of predicted input commands that the server has not acknowledged yet. */
+export class InputCommandBuffer {
+  private readonly pending: PendingCommand[] = [];
+  private nextSequence = 1;
+  private maxSize: number;
+
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+  }
+
+  setMaxSize(maxSize: number): void {
+    this.maxSize = Math.max(1, Math.floor(maxSize));
+    this.trim();
+  }
+
+  allocateSequence(): number {
+    return this.nextSequence++;
+  }
+
+  push(command: InputCommand, state: PredictedState): void {
+    this.pending.push({ command, state });
+    this.trim();
+  }
+
+  /**
+   * Drops every command up to and including `sequence` and returns the state predicted for
+   * the acknowledged command, if it was still buffered.
+   */
+  acknowledge(sequence: number): PredictedState | undefined {
+    let state: PredictedState | undefined;
+
+    while (this.pending.length > 0) {
+      const entry = this.pending[0];
+      if (!entry || entry.command.sequence > sequence) {
+        break;
+      }
+
+      if (entry.command.sequence === sequence) {
+        state = entry.state;
+      }
+      this.pending.shift();
+    }
+
+    return state;
+  }
+
+  updateState(sequence: number, state: PredictedState): void {
+    const entry = this.pending.find((candidate) => candidate.command.sequence === sequence);
+    if (entry) {
+      entry.state = state;
+    }
+  }
+
+  getPending(): InputCommand[] {
+    return this.pending.map((entry) => entry.command);
+  }
+
+  clear(): void {
+    this.pending.length = 0;
+  }
+
+  private trim(): void {
+    if (this.pending.length > this.maxSize) {
+      this.pending.splice(0, this.pending.length - this.maxSize);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { MOVEMENT_ACTIONS } from "../constants.js";
+import type {
+  FirstPersonControllerOptions,
+  ControllerSnapshot,
+  InputRecording,
+  MovementAction,
+  RecordedFrame,
+  RecordedOptionsEvent,
+} from "../types.js";
+import { fromRecordedOptions, toRecordedOptions } from "../utils/encoding.js";
+
+export const INPUT_RECORDING_VERSION = 1;
+
+export const encodeActions = (isPressed: (action: MovementAction) => boolean): number =>
+  MOVEMENT_ACTIONS.reduce(
+    (mask, action, index) => (isPressed(action) ? mask | (1 << index) : mask),
+    0,
+  );
+
+export const decodeActions = (mask: number, target: Set<MovementAction>): Set<MovementAction> => {
+  target.clear();
+  MOVEMENT_ACTIONS.forEach((action, index) => {
+    if (mask & (1 << index)) {
+      target.add(action);
+    }
+  });
+  return target;
+};
+
+// Options that change the simulation but hold functions or scene objects, so cannot be stored.
+const UNREPLAYABLE_OPTIONS = ["gravityFn", "groundCheckFn", "collision", "stamina"];
+
+export class InputRecorder {
+  private readonly start: ControllerSnapshot;
+  private readonly frames: RecordedFrame[] = [];
+  private readonly events: RecordedOptionsEvent[] = [];
+  private readonly unreplayable = new Set<string>();
+
+  constructor(start: ControllerSnapshot) {
+    this.start = start;
+  }
+
+  recordFrame(frame: RecordedFrame): void {
+    this.frames.push(frame);
+  }
+
+  recordOptions(options: Partial<FirstPersonControllerOptions>): void {
+    const recorded = toRecordedOptions(options);
+    if (Object.keys(recorded).length > 0) {
+      this.events.push({ frame: this.frames.length, options: recorded });
+    }
+
+    Object.keys(options)
+      .filter((key) => UNREPLAYABLE_OPTIONS.includes(key))
+      .forEach((key) => this.recordUnreplayable(key));
+  }
+
+  /** Notes a change the recording cannot reproduce, by method or option name. */
+  recordUnreplayable(change: string): void {
+    this.unreplayable.add(change);
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  finish(): InputRecording {
+    return {
+      version: INPUT_RECORDING_VERSION,
+      start: this.start,
+      frames: this.frames.map((frame) => [...frame] as RecordedFrame),
+      events: this.events.map((event) => ({ frame: event.frame, options: { ...event.options } })),
+      ...(this.unreplayable.size > 0 ? { unreplayable: [...this.unreplayable] } : {}),
+    };
+  }
+}
+
+export class InputReplay {
+  private readonly recording: InputRecording;
+  private frameIndex = 0;
+  private eventIndex = 0;
+
+  constructor(recording: InputRecording) {
+    if (recording.version !== INPUT_RECORDING_VERSION) {
+      throw new Error(
+        `Unsupported input recording version ${String(recording.version)}; expected ${INPUT_RECORDING_VERSION}.`,
+      );
+    }
+    if (recording.unreplayable && recording.unreplayable.length > 0) {
+      throw new Error(
+        `Input recording cannot be replayed; changed while recording: ${recording.unreplayable.join(", ")}.`,
+      );
+    }
+
+    this.recording = recording;
+  }
+
+  getStart(): ControllerSnapshot {
+    return this.recording.start;
+  }
+
+  isFinished(): boolean {
+    return this.frameIndex >= this.recording.frames.length;
+  }
+
+  /** Returns the options changes recorded before the next frame, in order. */
+  takeOptions(): Partial<FirstPersonControllerOptions>[] {
+    const options: Partial<FirstPersonControllerOptions>[] = [];
+
+    while (this.eventIndex < this.recording.events.length) {
+      const event = this.recording.events[this.eventIndex];
+      if (!event || event.frame > this.frameIndex) {
+        break;
+      }
+
+      options.push(fromRecordedOptions(event.options));
+      this.eventIndex += 1;
+    }
+
+    return options;
+  }
+
+  nextFrame(): RecordedFrame | undefined {
+    const frame = this.recording.frames[this.frameIndex];
+    if (frame) {
+      this.frameIndex += 1;
+    }
+    return frame;
+  }
+}
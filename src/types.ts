@@ -1,20 +1,130 @@
 import type * as THREE from "three";
+import type { Octree } from "three/examples/jsm/math/Octree.js";
 
 export type KeyCode = string;
 
-export type MovementAction = "forward" | "backward" | "left" | "right" | "jump" | "sprint";
+export type MovementAction =
+  | "forward"
+  | "backward"
+  | "left"
+  | "right"
+  | "jump"
+  | "sprint"
+  | "ascend"
+  | "descend"
+  | "crouch";
 
-export interface PlayerConfig {
+/** `hold` keeps an action active while its input is held; `toggle` flips it on each press. */
+export type ActionMode = "hold" | "toggle";
+
+/**
+ * `walk` applies gravity and ground checks; `fly` moves along the view direction (ascend and
+ * descend move vertically) while still colliding; `noclip` flies through geometry.
+ */
+export type MovementMode = "walk" | "fly" | "noclip";
+
+/**
+ * Horizontal movement tuning. Accelerations are in units/second²; `Infinity` snaps the
+ * velocity straight to its target, which is how the `instant` preset reproduces the
+ * original behaviour.
+ */
+export interface MovementModel {
+  groundAcceleration: number;
+  groundDeceleration: number;
+  airAcceleration: number;
+  airControl: number;
+  maxHorizontalSpeed: number;
+  airDrag: number;
+}
+
+export interface PlayerConfig extends MovementModel {
   height: number;
   moveSpeed: number;
   jumpSpeed: number;
   gravity: number;
 }
 
+export type MovementPreset = "instant" | "smooth" | "weighty";
+
 export type KeyBindings = Record<MovementAction, KeyCode[]>;
 
 export type KeyBindingsOverrides = Partial<Record<MovementAction, KeyCode[]>>;
 
+export type GamepadBindings = Record<MovementAction, number[]>;
+
+export type GamepadBindingsOverrides = Partial<Record<MovementAction, number[]>>;
+
+export interface GamepadOptions {
+  index?: number;
+  deadZone?: number;
+  responseCurve?: number;
+  lookSpeed?: number;
+  invertX?: boolean;
+  invertY?: boolean;
+  bindings?: GamepadBindingsOverrides;
+}
+
+/**
+ * Cosmetic camera motion layered on top of the simulated state. Amplitudes are in world
+ * units, angles in radians; set any of them to 0 to turn that effect off.
+ */
+export interface CameraEffectsOptions {
+  /** Head bob height at `moveSpeed`; scales with ground speed. */
+  bobAmplitude?: number;
+  /** Strides per second at `moveSpeed`. */
+  bobFrequency?: number;
+  /** Camera dip speed per unit/second of landing impact speed. */
+  landingDip?: number;
+  maxLandingDip?: number;
+  landingStiffness?: number;
+  landingDamping?: number;
+  /** Roll at full strafe speed. */
+  strafeTilt?: number;
+  /** How quickly the roll follows strafing (per second). */
+  tiltSpeed?: number;
+  /** Turns every effect off, e.g. from `prefers-reduced-motion`. */
+  reducedMotion?: boolean;
+}
+
+export interface InputVector {
+  x: number;
+  y: number;
+}
+
+/**
+ * A device or driver feeding the controller. Every registered source is read once per
+ * `update()` and merged: move vectors are summed (clamped to length 1), look deltas are
+ * summed and actions are pressed when any source reports them.
+ */
+export interface InputSource {
+  /** Called at the start of every update, before any input is read. */
+  poll?(delta: number): void;
+  /** Movement intent with x = strafe right and y = forward, each in [-1, 1]. */
+  getMoveVector(): Readonly<InputVector>;
+  /** Rotation in radians since the last call; positive x turns right, positive y looks down. */
+  consumeLookDelta(delta: number): InputVector;
+  isActionPressed(action: MovementAction): boolean;
+  reset?(): void;
+  dispose?(): void;
+}
+
+export type TouchButtonAction = "jump" | "crouch" | "sprint" | "ascend" | "descend";
+
+/** Joystick area as fractions (0–1) of the element's bounding box. */
+export interface TouchJoystickZone {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface TouchControlsOptions {
+  joystickZone?: Partial<TouchJoystickZone>;
+  joystickRadius?: number;
+  lookSensitivity?: number;
+  buttons?: Partial<Record<TouchButtonAction, HTMLElement>>;
+}
+
 export interface PointerLockCallbacks {
   onPointerLockChange?: (locked: boolean) => void;
   onPointerLockToggle?: (locked: boolean) => void;
@@ -22,24 +132,249 @@ export interface PointerLockCallbacks {
 
 export type LookChangeCallback = (yaw: number, pitch: number) => void;
 
+export interface JumpEvent {
+  /** 0 for a jump off the ground (or a ladder), 1 and up for the air jumps that follow. */
+  index: number;
+  /** Velocity right after the jump. */
+  velocity: THREE.Vector3;
+}
+
+export type JumpCallback = (event: JumpEvent) => void;
+
+export interface LandEvent {
+  /** Speed towards the ground (along the up axis) just before touching down. */
+  impactSpeed: number;
+  /** Velocity at touchdown, before the ground stopped it. */
+  velocity: THREE.Vector3;
+}
+
+export type Foot = "left" | "right";
+
+export interface FootstepEvent {
+  foot: Foot;
+  /** `surface` reported by the ground check, if any. */
+  surface?: string;
+  position: THREE.Vector3;
+  /** Ground speed over the tick that produced the step. */
+  speed: number;
+}
+
+export interface FootstepOptions {
+  /** Metres walked on the ground between two footsteps. */
+  stepDistance?: number;
+  /** Stride scale while sprinting; above 1 means fewer, longer steps. */
+  sprintStepScale?: number;
+  /** Stride scale while crouched. */
+  crouchStepScale?: number;
+}
+
+/** Events of `FirstPersonController.on()`, mapped to their listener arguments. */
+export interface ControllerEventMap {
+  jump: [event: JumpEvent];
+  land: [event: LandEvent];
+  footstep: [event: FootstepEvent];
+  /** Fired whenever the character loses the ground, including jumps. */
+  leaveGround: [];
+  crouch: [];
+  stand: [];
+  sprintStart: [];
+  sprintStop: [];
+  waterEnter: [];
+  waterExit: [];
+  /** The eye went below the water surface. */
+  underwaterEnter: [];
+  underwaterExit: [];
+  pointerLockChange: [locked: boolean];
+  lookChange: [yaw: number, pitch: number];
+  dispose: [];
+}
+
+export type ControllerEventListener<K extends keyof ControllerEventMap> = (
+  ...args: ControllerEventMap[K]
+) => void;
+
 export interface ControllerState {
   position: THREE.Vector3;
   velocity: THREE.Vector3;
   yaw: number;
   pitch: number;
   onGround: boolean;
+  /** Present when the stamina model is enabled. */
+  stamina?: StaminaState;
+}
+
+export interface StaminaState {
+  current: number;
+  max: number;
+  /** Set when stamina runs out; sprint stays blocked until `exhaustionThreshold` is reached. */
+  exhausted: boolean;
+}
+
+export interface StaminaOptions {
+  maxStamina?: number;
+  /** Stamina per second while sprinting. */
+  drainRate?: number;
+  jumpCost?: number;
+  /** Seconds after the last drain or jump before stamina starts to come back. */
+  regenDelay?: number;
+  /** Stamina per second while regenerating. */
+  regenRate?: number;
+  /** Stamina needed to sprint again after running out. */
+  exhaustionThreshold?: number;
+  onChange?: (stamina: StaminaState) => void;
+  onExhaustedChange?: (exhausted: boolean) => void;
+}
+
+/** Numbers that can be non-finite are stored as strings, since JSON has no Infinity or NaN. */
+export interface StaminaSnapshot {
+  maxStamina: number | string;
+  drainRate: number | string;
+  jumpCost: number | string;
+  regenDelay: number | string;
+  regenRate: number | string;
+  exhaustionThreshold: number | string;
+  current: number | string;
+  exhausted: boolean;
+  regenCooldown: number | string;
 }
 
 export type GravityFn = (position: THREE.Vector3) => THREE.Vector3;
 
+export interface GroundCheckResult {
+  onGround: boolean;
+  groundNormal: THREE.Vector3 | null;
+  groundHeight?: number;
+  groundPoint?: THREE.Vector3;
+  /**
+   * The object stood on. When it moves or turns the character is carried along and keeps
+   * its velocity after jumping or walking off.
+   */
+  groundObject?: THREE.Object3D;
+  /** Surface identifier (e.g. "grass", "metal") passed on to footstep events. */
+  surface?: string;
+  /** Height of the nearest surface overhead; a crouched player will not stand up into it. */
+  ceilingHeight?: number;
+}
+
+/** The ground the character stands on, as last reported by the ground check. */
+export interface GroundInfo {
+  normal: THREE.Vector3;
+  surface?: string;
+  object?: THREE.Object3D;
+}
+
+/**
+ * `groundHeight` and `ceilingHeight` are measured along `up` (world y unless the controller
+ * aligns to gravity), so for the default orientation they are plain world y values.
+ */
 export type GroundCheckFn = (
   state: ControllerState,
   delta: number,
-) => { onGround: boolean; groundNormal: THREE.Vector3 | null };
+  height: number,
+  up: THREE.Vector3,
+) => GroundCheckResult;
+
+export interface RaycastGroundCheckOptions {
+  layers?: THREE.Layers | number;
+  maxDistance?: number;
+  recursive?: boolean;
+  /** How far above the eye to look for a ceiling. Set to 0 to skip the upward ray. */
+  ceilingDistance?: number;
+}
+
+export type CollisionWorld = THREE.Object3D | Octree;
+
+/** A world-space box, or an object whose world bounding box is the climbable volume. */
+export type LadderVolume = THREE.Box3 | THREE.Object3D;
+
+/**
+ * Water surface height (along the up axis) above the given feet position, or `null` where
+ * there is no water.
+ */
+export type WaterSurfaceFn = (position: THREE.Vector3) => number | null;
+
+/** A world-space box of water (its top is the surface) or a surface height function. */
+export type WaterVolume = THREE.Box3 | WaterSurfaceFn;
+
+export interface LadderOptions {
+  /**
+   * Direction the climbable side faces; the player has to look against it to climb. Without
+   * it, looking towards the middle of the volume counts as facing the ladder.
+   */
+  normal?: THREE.Vector3;
+}
+
+export interface CollisionContact {
+  normal: THREE.Vector3;
+  depth: number;
+}
+
+export interface CollisionOptions {
+  world: CollisionWorld;
+  radius?: number;
+  onCollision?: (contacts: CollisionContact[]) => void;
+}
+
+/**
+ * One simulated tick of input, numbered so the server can acknowledge it. Actions use the
+ * same bitmask as input recordings.
+ */
+export interface InputCommand {
+  sequence: number;
+  delta: number;
+  moveX: number;
+  moveY: number;
+  actions: number;
+  yaw: number;
+  pitch: number;
+  crouching: boolean;
+}
+
+export interface PredictionOptions {
+  /** Called for every predicted tick; forward the command to the server. */
+  onInputCommand?: (command: InputCommand) => void;
+  /** Time constant (seconds) for blending out visual corrections after reconciliation. */
+  correctionSmoothing?: number;
+  /** Corrections larger than this distance snap instead of being smoothed. */
+  snapDistance?: number;
+  /** Unacknowledged commands kept for re-simulation; older ones are dropped. */
+  maxPendingCommands?: number;
+}
+
+export interface MouseLookOptions {
+  /** Scales `lookSensitivity` for horizontal mouse movement. */
+  sensitivityX?: number;
+  /** Scales `lookSensitivity` for vertical mouse movement. */
+  sensitivityY?: number;
+  /** Sets `lookSensitivity` in degrees per mouse count, e.g. 0.022 × a Quake/Source sensitivity. */
+  degreesPerCount?: number;
+  invertY?: boolean;
+  /** Time constant (seconds) of exponential look smoothing; 0 applies mouse moves immediately. */
+  smoothing?: number;
+  /** Acceleration per count/ms of mouse speed; 0 disables the acceleration curve. */
+  acceleration?: number;
+  /** Shape of the curve: the sensitivity is scaled by `1 + (acceleration × speed) ^ exponent`. */
+  accelerationExponent?: number;
+  /** Upper bound of that scale. */
+  accelerationLimit?: number;
+}
+
+/** `MouseLookOptions` as stored in snapshots, with non-finite numbers as strings. */
+export interface MouseLookSnapshot {
+  sensitivityX: number | string;
+  sensitivityY: number | string;
+  invertY: boolean;
+  smoothing: number | string;
+  acceleration: number | string;
+  accelerationExponent: number | string;
+  accelerationLimit: number | string;
+}
 
 export interface LookControllerOptions extends PointerLockCallbacks {
   element: HTMLElement;
+  /** Radians per mouse count. */
   lookSensitivity?: number;
+  mouseLook?: MouseLookOptions;
   maxPitch?: number;
   enablePointerLock?: boolean;
   autoPointerLock?: boolean;
@@ -47,17 +382,215 @@ export interface LookControllerOptions extends PointerLockCallbacks {
   onLookChange?: LookChangeCallback;
 }
 
-export interface FirstPersonControllerOptions extends Partial<PlayerConfig>, LookControllerOptions {
+export interface CharacterMotorOptions extends Partial<PlayerConfig> {
+  movementMode?: MovementMode;
   sprintMultiplier?: number;
-  keyBindings?: KeyBindingsOverrides;
   gravityFn?: GravityFn;
   groundCheckFn?: GroundCheckFn;
+  collision?: CollisionOptions;
+  stamina?: StaminaOptions;
   enableCrouch?: boolean;
   crouchHeight?: number;
   crouchSpeedMultiplier?: number;
   maxStepHeight?: number;
   maxSlopeAngle?: number;
-  onJump?: () => void;
+  /** Turn the up axis (movement plane, slopes, ground snapping and view) against gravity. */
+  alignToGravity?: boolean;
+  /** How quickly the up axis follows gravity (1/s); `Infinity` snaps immediately. */
+  upAlignSpeed?: number;
+  ladderClimbSpeed?: number;
+  /** Degrees between the view and the ladder within which the player grabs it. */
+  ladderFacingAngle?: number;
+  /** Speed away from the ladder when jumping off. */
+  ladderPushOff?: number;
+  swimSpeed?: number;
+  /** How quickly water slows the character down (1/s). */
+  waterDrag?: number;
+  /** Upward push when fully submerged, as a multiple of gravity; above 1 floats. */
+  buoyancy?: number;
+  /** Seconds after walking off a ledge during which a jump still works. */
+  coyoteTime?: number;
+  /** Seconds a jump pressed in the air is remembered and performed on landing. */
+  jumpBufferTime?: number;
+  /** Keep jumping while jump is held instead of requiring a release between jumps. */
+  holdToJump?: boolean;
+  /** Scales the upward velocity when jump is released while rising; 1 keeps the full height. */
+  jumpCutMultiplier?: number;
+  /** Extra jumps allowed before touching the ground again. */
+  airJumps?: number;
+  /** Jump speed of air jumps; defaults to `jumpSpeed`. */
+  airJumpSpeed?: number;
+  /** Friction coefficient while sliding down slopes steeper than `maxSlopeAngle`. */
+  slideFriction?: number;
+  /** Speed multiplier walking straight up a slope as steep as `maxSlopeAngle`. */
+  uphillSpeedMultiplier?: number;
+  /** Speed multiplier walking straight down a slope as steep as `maxSlopeAngle`. */
+  downhillSpeedMultiplier?: number;
+  onJump?: JumpCallback;
   initialPosition?: THREE.Vector3;
+}
+
+/** Explicit input for one `CharacterMotor.step()`; omitted look/crouch values keep their state. */
+export interface MotorInput {
+  /** x = strafe right, y = forward; magnitude is clamped to 1. */
+  move?: InputVector;
+  actions?: Iterable<MovementAction>;
+  yaw?: number;
+  pitch?: number;
+  crouch?: boolean;
+}
+
+/** Movement settings that can be non-finite are stored as strings, like `config`. */
+export interface CharacterMotorSnapshot {
+  version: number;
+  position: [number, number, number];
+  velocity: [number, number, number];
+  yaw: number;
+  pitch: number;
+  onGround: boolean;
+  /** Current eye height, which differs from `config.height` mid-crouch. */
+  height: number;
+  crouching: boolean;
+  /** `PlayerConfig` with non-finite values stored as strings. */
+  config: RecordedOptions;
+  sprintMultiplier: number | string;
+  enableCrouch: boolean;
+  crouchHeight: number | string;
+  crouchSpeedMultiplier: number | string;
+  maxStepHeight: number | string | null;
+  /** Degrees. */
+  maxSlopeAngle: number | string | null;
+  movementMode: MovementMode;
+  /** Only present when the stamina model is enabled. */
+  stamina?: StaminaSnapshot;
+  alignToGravity: boolean;
+  upAlignSpeed: number | string;
+  /** Rotation from world y to the current up axis. */
+  upOrientation: [number, number, number, number];
+  ladderClimbSpeed: number | string;
+  /** Degrees. */
+  ladderFacingAngle: number | string;
+  ladderPushOff: number | string;
+  /** Seconds left before ladders can be grabbed again after jumping off one. */
+  ladderCooldown: number;
+  swimSpeed: number | string;
+  waterDrag: number | string;
+  buoyancy: number | string;
+  coyoteTime: number | string;
+  jumpBufferTime: number | string;
+  holdToJump: boolean;
+  /** Seconds of coyote time left. */
+  coyoteTimer: number;
+  /** Seconds since a jump press that has not been used yet; missing when there is none. */
+  jumpPressAge?: number;
+  /** Whether jump was held on the previous step, for detecting new presses. */
+  jumpHeld: boolean;
+  jumpCutMultiplier: number | string;
+  airJumps: number | string;
+  airJumpSpeed: number | string | null;
+  airJumpsUsed: number;
+  /** Whether the current jump can still be cut short by releasing jump. */
+  jumpRising: boolean;
+  slideFriction: number | string;
+  uphillSpeedMultiplier: number | string;
+  downhillSpeedMultiplier: number | string;
+  /** Normal of the steep surface being slid down; missing when not sliding. */
+  slideNormal?: [number, number, number];
+  /** Normal of the ground being stood on. */
+  groundNormal: [number, number, number];
+  /**
+   * Motion of the ground object being stood on; missing when there is none. The object itself
+   * is looked up again with the ground check on restore.
+   */
+  platform?: { velocity: [number, number, number]; elapsed: number; interval: number };
+}
+
+/** Jump timing carried from one step to the next. */
+export interface JumpState {
+  /** Seconds of coyote time left. */
+  coyoteTimer: number;
+  /** Seconds since a jump press that has not been used yet; missing when there is none. */
+  jumpPressAge?: number;
+  /** Whether jump was held on the previous step, for detecting new presses. */
+  jumpHeld: boolean;
+  airJumpsUsed: number;
+  /** Whether the current jump can still be cut short by releasing jump. */
+  jumpRising: boolean;
+}
+
+export interface FirstPersonControllerOptions extends CharacterMotorOptions, LookControllerOptions {
+  keyBindings?: KeyBindingsOverrides;
+  gamepad?: GamepadOptions;
+  touch?: TouchControlsOptions;
+  inputSources?: InputSource[];
+  cameraEffects?: CameraEffectsOptions;
+  footsteps?: FootstepOptions;
+  fixedTimeStep?: number;
+  maxSubSteps?: number;
+  prediction?: PredictionOptions;
   lookOnly?: boolean;
+  crouchMode?: ActionMode;
+  /** A toggled sprint ends once movement input stops. */
+  sprintMode?: ActionMode;
+}
+
+export type RecordedOptions = Record<string, number | string | boolean | Record<string, string[]>>;
+
+/**
+ * One `update()` call: `[delta, moveX, moveY, actionMask, yaw, pitch, crouching]`.
+ * Look and crouch are stored as absolute values so mouse moves between frames replay exactly.
+ */
+export type RecordedFrame = [
+  delta: number,
+  moveX: number,
+  moveY: number,
+  actions: number,
+  yaw: number,
+  pitch: number,
+  crouching: 0 | 1,
+];
+
+export interface RecordedOptionsEvent {
+  frame: number;
+  options: RecordedOptions;
+}
+
+/** Look and timing settings; non-finite numbers are stored as strings. */
+export interface ControllerSnapshotOptions {
+  lookSensitivity: number | string;
+  mouseLook: MouseLookSnapshot;
+  maxPitch: number | string;
+  fieldOfView: number | string;
+  lookOnly: boolean;
+  enablePointerLock: boolean;
+  autoPointerLock: boolean;
+  keyBindings: KeyBindings;
+  fixedTimeStep: number | string | null;
+  maxSubSteps: number | string;
+  crouchMode: ActionMode;
+  sprintMode: ActionMode;
+}
+
+/**
+ * Complete runtime state of a `FirstPersonController` as plain JSON. Callbacks, input
+ * devices, ground checks and collision worlds are not included.
+ */
+export interface ControllerSnapshot {
+  version: number;
+  /** Movement state and options of the underlying `CharacterMotor`. */
+  motor: CharacterMotorSnapshot;
+  accumulator: number | string;
+  options: ControllerSnapshotOptions;
+}
+
+export interface InputRecording {
+  version: number;
+  start: ControllerSnapshot;
+  frames: RecordedFrame[];
+  events: RecordedOptionsEvent[];
+  /**
+   * Calls or options made while recording that cannot be stored, such as `setCollision` or
+   * `addLadder`; `startReplay()` rejects recordings that have any.
+   */
+  unreplayable?: string[];
 }
@@ -0,0 +1,70 @@
+import type { FirstPersonControllerOptions, PlayerConfig, RecordedOptions } from "../types.js";
+
+// JSON has no Infinity/NaN, which the movement presets rely on, so those travel as strings.
+export const encodeNumber = (value: number): number | string =>
+  Number.isFinite(value) ? value : String(value);
+
+export const decodeNumber = (value: number | string): number =>
+  typeof value === "number" ? value : Number(value);
+
+/**
+ * Keeps the JSON-safe part of an options object: numbers, booleans, strings and key
+ * bindings. Callbacks, DOM elements and scene objects cannot be stored and are dropped.
+ */
+export const toRecordedOptions = (
+  options: Partial<FirstPersonControllerOptions>,
+): RecordedOptions => {
+  const recorded: RecordedOptions = {};
+
+  for (const [key, value] of Object.entries(options)) {
+    if (typeof value === "number") {
+      recorded[key] = encodeNumber(value);
+    } else if (typeof value === "boolean" || typeof value === "string") {
+      recorded[key] = value;
+    } else if (key === "keyBindings" && value && typeof value === "object") {
+      recorded[key] = JSON.parse(JSON.stringify(value)) as Record<string, string[]>;
+    }
+  }
+
+  return recorded;
+};
+
+export const fromRecordedOptions = (
+  recorded: RecordedOptions,
+): Partial<FirstPersonControllerOptions> => {
+  const options: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(recorded)) {
+    const numeric = ["Infinity", "-Infinity", "NaN"].includes(value as string);
+    options[key] = numeric ? decodeNumber(value as string) : value;
+  }
+
+  return options as Partial<FirstPersonControllerOptions>;
+};
+
+const PLAYER_CONFIG_KEYS: readonly (keyof PlayerConfig)[] = [
+  "height",
+  "moveSpeed",
+  "jumpSpeed",
+  "gravity",
+  "groundAcceleration",
+  "groundDeceleration",
+  "airAcceleration",
+  "airControl",
+  "maxHorizontalSpeed",
+  "airDrag",
+];
+
+/** Decodes the numeric fields of a `PlayerConfig` stored by `toRecordedOptions`. */
+export const fromRecordedConfig = (recorded: RecordedOptions): Partial<PlayerConfig> => {
+  const config: Partial<PlayerConfig> = {};
+
+  for (const key of PLAYER_CONFIG_KEYS) {
+    const value = recorded[key];
+    if (typeof value === "number" || typeof value === "string") {
+      config[key] = decodeNumber(value);
+    }
+  }
+
+  return config;
+};
@@ -0,0 +1,3 @@
+/** Whether `key` was passed at all, so options can tell `{ key: undefined }` from a missing key. */
+export const hasOwn = <T extends object, K extends keyof T>(obj: T, key: K): boolean =>
+  Object.prototype.hasOwnProperty.call(obj, key);
@@ -0,0 +1,106 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+
+import { CameraEffects } from "../src/camera/CameraEffects.js";
+import type { ControllerState } from "../src/types.js";
+
+const createState = (
+  velocity: THREE.Vector3,
+  onGround = true,
+  yaw = 0,
+): Readonly<ControllerState> => ({
+  position: new THREE.Vector3(0, 1.6, 0),
+  velocity,
+  yaw,
+  pitch: 0,
+  onGround,
+});
+
+const run = (effects: CameraEffects, state: Readonly<ControllerState>, seconds: number) => {
+  for (let t = 0; t < seconds; t += 1 / 60) {
+    effects.update(1 / 60, state, 5);
+  }
+};
+
+describe("CameraEffects", () => {
+  it("bobs while walking and settles when standing still", () => {
+    const effects = new CameraEffects();
+    const offset = new THREE.Vector3();
+    let maxLift = 0;
+
+    for (let i = 0; i < 120; i++) {
+      effects.update(1 / 60, createState(new THREE.Vector3(0, 0, -5)), 5);
+      maxLift = Math.max(maxLift, effects.getOffset(0, offset).y);
+    }
+    run(effects, createState(new THREE.Vector3()), 2);
+
+    expect(maxLift).toBeGreaterThan(0.03);
+    expect(effects.getOffset(0, offset).length()).toBeLessThan(1e-3);
+  });
+
+  it("dips on landing in proportion to the impact speed", () => {
+    const dipAfterFall = (speed: number) => {
+      const effects = new CameraEffects({ bobAmplitude: 0 });
+      effects.land(speed);
+      let lowest = 0;
+      for (let i = 0; i < 30; i++) {
+        effects.update(1 / 60, createState(new THREE.Vector3()), 5);
+        lowest = Math.min(lowest, effects.getOffset(0, new THREE.Vector3()).y);
+      }
+      return { lowest, settled: effects.getOffset(0, new THREE.Vector3()).y };
+    };
+
+    const soft = dipAfterFall(2);
+    const hard = dipAfterFall(8);
+
+    expect(soft.lowest).toBeLessThan(0);
+    expect(hard.lowest).toBeLessThan(soft.lowest * 2);
+    expect(hard.lowest).toBeGreaterThanOrEqual(-0.3);
+    expect(hard.settled).toBeGreaterThan(-0.02);
+  });
+
+  it("leans into the strafe direction relative to yaw", () => {
+    const effects = new CameraEffects();
+
+    run(effects, createState(new THREE.Vector3(0, 0, -5), true, -Math.PI / 2), 1);
+
+    // Facing +x, moving towards -z is a strafe to the left, so the camera rolls left.
+    expect(effects.getRoll()).toBeGreaterThan(0.02);
+  });
+
+  it("measures walking speed and strafing in the frame of a turned up axis", () => {
+    // Up along +x: velocity along x is vertical, along -z is still forward at yaw 0.
+    const upOrientation = new THREE.Quaternion().setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3(1, 0, 0),
+    );
+    const lift = (velocity: THREE.Vector3) => {
+      const effects = new CameraEffects();
+      let maxLift = 0;
+      for (let i = 0; i < 60; i++) {
+        effects.update(1 / 60, createState(velocity), 5, upOrientation);
+        maxLift = Math.max(maxLift, effects.getOffset(0, new THREE.Vector3()).y);
+      }
+      return { maxLift, roll: effects.getRoll() };
+    };
+
+    expect(lift(new THREE.Vector3(5, 0, 0)).maxLift).toBeLessThan(1e-3);
+    expect(lift(new THREE.Vector3(0, 0, -5)).maxLift).toBeGreaterThan(0.03);
+    // World -y is the player's right once up points along +x.
+    expect(lift(new THREE.Vector3(0, -5, 0)).roll).toBeLessThan(-0.02);
+  });
+
+  it("does nothing with reduced motion", () => {
+    const effects = new CameraEffects({ reducedMotion: true });
+
+    run(effects, createState(new THREE.Vector3(5, 0, 0)), 1);
+    effects.land(10);
+    effects.update(1 / 60, createState(new THREE.Vector3()), 5);
+
+    expect(effects.getOffset(0, new THREE.Vector3()).length()).toBe(0);
+    expect(effects.getRoll()).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { Octree } from "three/examples/jsm/math/Octree.js";
+
+import { CapsuleCollider } from "../src/collision/CapsuleCollider.js";
+import type { CollisionContact } from "../src/types.js";
+
+const createWall = () => {
+  const world = new THREE.Group();
+  const wall = new THREE.Mesh(new THREE.BoxGeometry(1, 4, 10), new THREE.MeshBasicMaterial());
+  wall.position.set(2, 2, 0);
+  world.add(wall);
+  return world;
+};
+
+describe("CapsuleCollider", () => {
+  it("moves freely when nothing is in the way", () => {
+    const collider = new CapsuleCollider({ world: createWall(), radius: 0.3 });
+    const position = new THREE.Vector3(0, 1.6, 0);
+    const contacts: CollisionContact[] = [];
+
+    collider.move(position, new THREE.Vector3(0, 0, -1), 1.6, contacts);
+
+    expect(position.x).toBeCloseTo(0);
+    expect(position.y).toBeCloseTo(1.6);
+    expect(position.z).toBeCloseTo(-1);
+    expect(contacts).toHaveLength(0);
+  });
+
+  it("stops at walls and slides along them", () => {
+    const collider = new CapsuleCollider({ world: createWall(), radius: 0.3 });
+    const position = new THREE.Vector3(0, 1.6, 0);
+    const contacts: CollisionContact[] = [];
+
+    collider.move(position, new THREE.Vector3(3, 0, -1), 1.6, contacts);
+
+    expect(position.x).toBeLessThanOrEqual(1.5 - 0.3 + 1e-3);
+    expect(position.z).toBeCloseTo(-1, 1);
+    expect(contacts.length).toBeGreaterThan(0);
+    expect(contacts[0]?.normal.x).toBeLessThan(-0.9);
+  });
+
+  it("does not tunnel through thin geometry on large displacements", () => {
+    const collider = new CapsuleCollider({ world: createWall(), radius: 0.3 });
+    const position = new THREE.Vector3(0, 1.6, 0);
+
+    collider.move(position, new THREE.Vector3(10, 0, 0), 1.6, []);
+
+    expect(position.x).toBeLessThan(1.5);
+  });
+
+  it("accepts a prebuilt octree", () => {
+    const octree = new Octree().fromGraphNode(createWall());
+    const collider = new CapsuleCollider({ world: octree });
+
+    expect(collider.getOctree()).toBe(octree);
+  });
+});
@@ -0,0 +1,154 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+import { DEFAULT_PLAYER_CONFIG, MOVEMENT_PRESETS } from "../src/constants.js";
+
+describe("CharacterMotor", () => {
+  it("runs without a DOM", () => {
+    expect(typeof document).toBe("undefined");
+    expect(typeof window).toBe("undefined");
+  });
+
+  it("moves along the given yaw from explicit input", () => {
+    const motor = new CharacterMotor({ moveSpeed: 4 });
+
+    const state = motor.step(0.5, { move: { x: 0, y: 1 }, yaw: Math.PI / 2 });
+
+    expect(state.position.x).toBeCloseTo(-2);
+    expect(state.position.z).toBeCloseTo(0);
+    expect(state.yaw).toBeCloseTo(Math.PI / 2);
+  });
+
+  it("treats omitted input as no input", () => {
+    const motor = new CharacterMotor(MOVEMENT_PRESETS.smooth);
+    motor.step(0.1, { move: { x: 1, y: 0 }, actions: ["sprint"] });
+    const moving = motor.getState().velocity.x;
+
+    motor.step(0.1);
+
+    expect(moving).toBeGreaterThan(0);
+    expect(motor.getState().velocity.x).toBeLessThan(moving);
+  });
+
+  it("jumps, falls and lands using the configured gravity", () => {
+    const onJump = vi.fn();
+    const motor = new CharacterMotor({ jumpSpeed: 5, gravity: 10, onJump });
+
+    motor.step(1 / 60, { actions: ["jump"] });
+    expect(onJump).toHaveBeenCalledTimes(1);
+    expect(motor.getState().onGround).toBe(false);
+
+    for (let i = 0; i < 120; i++) {
+      motor.step(1 / 60);
+    }
+
+    const state = motor.getState();
+    expect(state.onGround).toBe(true);
+    expect(state.position.y).toBeCloseTo(motor.getHeight());
+  });
+
+  it("eases into a crouch while keeping the feet planted", () => {
+    const motor = new CharacterMotor({ enableCrouch: true, crouchHeight: 1 });
+
+    motor.step(0.05, { crouch: true });
+    const midway = motor.getCurrentHeight();
+    for (let i = 0; i < 60; i++) {
+      motor.step(1 / 60);
+    }
+
+    expect(midway).toBeLessThan(1.6);
+    expect(midway).toBeGreaterThan(1);
+    expect(motor.isCrouching()).toBe(true);
+    expect(motor.getState().position.y).toBeCloseTo(1);
+  });
+
+  it("stays crouched under a low ceiling until there is headroom", () => {
+    const world = new THREE.Group();
+    const slab = new THREE.Mesh(new THREE.BoxGeometry(2, 0.5, 2), new THREE.MeshBasicMaterial());
+    slab.position.set(0, 1.45, 0);
+    world.add(slab);
+    const floor = new THREE.Mesh(new THREE.BoxGeometry(20, 1, 20), new THREE.MeshBasicMaterial());
+    floor.position.set(0, -0.5, 0);
+    world.add(floor);
+    world.updateMatrixWorld(true);
+
+    const motor = new CharacterMotor({
+      enableCrouch: true,
+      crouchHeight: 1,
+      collision: { world, radius: 0.3 },
+      initialPosition: new THREE.Vector3(0, 1, 0),
+    });
+    motor.setCurrentHeight(1);
+    motor.setCrouch(true);
+
+    for (let i = 0; i < 30; i++) motor.step(1 / 60, { crouch: false });
+    expect(motor.isCrouching()).toBe(false);
+    expect(motor.isHeadroomBlocked()).toBe(true);
+    expect(motor.getCurrentHeight()).toBeLessThan(1.2);
+
+    for (let i = 0; i < 60; i++) motor.step(1 / 60, { move: { x: 1, y: 0 } });
+    expect(motor.getState().position.x).toBeGreaterThan(1.3);
+    expect(motor.isHeadroomBlocked()).toBe(false);
+    expect(motor.getCurrentHeight()).toBeCloseTo(motor.getHeight());
+  });
+
+  it("limits standing up to the ceiling reported by the ground check", () => {
+    const motor = new CharacterMotor({
+      enableCrouch: true,
+      crouchHeight: 1,
+      groundCheckFn: (state, _delta, height) => ({
+        onGround: state.position.y - height <= 0,
+        groundNormal: new THREE.Vector3(0, 1, 0),
+        groundHeight: 0,
+        ceilingHeight: 1.3,
+      }),
+    });
+    motor.setCurrentHeight(1);
+    motor.setState({ position: new THREE.Vector3(0, 1, 0) });
+
+    for (let i = 0; i < 60; i++) motor.step(1 / 60);
+
+    expect(motor.getCurrentHeight()).toBeCloseTo(1.3);
+    expect(motor.getState().position.y).toBeCloseTo(1.3);
+    expect(motor.isHeadroomBlocked()).toBe(true);
+  });
+
+  it("round-trips its full state through a JSON snapshot", () => {
+    const motor = new CharacterMotor({ ...MOVEMENT_PRESETS.weighty, maxSlopeAngle: 40 });
+    motor.step(0.2, { move: { x: 0.5, y: 1 }, actions: ["jump"], yaw: 0.3 });
+
+    const copy = new CharacterMotor();
+    copy.restore(JSON.parse(JSON.stringify(motor.serialize())));
+    const input = { move: { x: -1, y: 0 }, actions: ["sprint" as const] };
+
+    expect(copy.step(0.1, input)).toEqual(motor.step(0.1, input));
+    expect(copy.getMovementConfig()).toEqual(motor.getMovementConfig());
+  });
+
+  it("restores only the known movement config fields from a snapshot", () => {
+    const snapshot = new CharacterMotor({ moveSpeed: 7 }).serialize();
+    const motor = new CharacterMotor();
+
+    motor.restore({ ...snapshot, config: { ...snapshot.config, unknown: "value", height: 2 } });
+
+    expect(motor.getMovementConfig()).toEqual({
+      ...DEFAULT_PLAYER_CONFIG,
+      moveSpeed: 7,
+      height: 2,
+    });
+  });
+
+  it("starts at initialPosition and falls once airborne", () => {
+    const motor = new CharacterMotor({ initialPosition: new THREE.Vector3(1, 5, 2) });
+    motor.setState({ onGround: false });
+
+    motor.step(0.1);
+
+    expect(motor.getState().position.x).toBe(1);
+    expect(motor.getState().position.y).toBeLessThan(5);
+  });
+});
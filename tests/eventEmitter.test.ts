@@ -0,0 +1,53 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it, vi } from "vitest";
+
+import { EventEmitter } from "../src/events/EventEmitter.js";
+
+interface TestEvents {
+  ping: [value: number];
+  done: [];
+}
+
+describe("EventEmitter", () => {
+  it("notifies every listener and stops after off or unsubscribe", () => {
+    const events = new EventEmitter<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribe = events.on("ping", first);
+    events.on("ping", second);
+
+    events.emit("ping", 1);
+    unsubscribe();
+    events.emit("ping", 2);
+    events.off("ping", second);
+    events.emit("ping", 3);
+
+    expect(first.mock.calls).toEqual([[1]]);
+    expect(second.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it("calls once listeners a single time", () => {
+    const events = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+    events.once("done", listener);
+
+    events.emit("done");
+    events.emit("done");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(events.hasListeners("done")).toBe(false);
+  });
+
+  it("tolerates listeners removing each other while emitting", () => {
+    const events = new EventEmitter<TestEvents>();
+    const later = vi.fn();
+    events.on("ping", () => events.off("ping", later));
+    events.on("ping", later);
+
+    events.emit("ping", 1);
+
+    expect(later).not.toHaveBeenCalled();
+  });
+});
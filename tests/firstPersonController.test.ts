@@ -3,7 +3,10 @@
 import { describe, expect, it, vi } from "vitest";
 import * as THREE from "three";
 
+import { CameraEffects } from "../src/camera/CameraEffects.js";
 import { FirstPersonController } from "../src/FirstPersonController.js";
+import { MOVEMENT_PRESETS } from "../src/constants.js";
+import type { FootstepEvent, InputSource, MovementAction } from "../src/types.js";
 
 describe("FirstPersonController", () => {
   const createController = () => {
@@ -206,6 +209,56 @@ describe("FirstPersonController", () => {
     document.body.innerHTML = "";
   });
 
+  it("crouches from the crouch key in hold and toggle modes", () => {
+    const { controller } = createController();
+    controller.updateOptions({ enableCrouch: true });
+    const press = (type: "keydown" | "keyup") => {
+      document.dispatchEvent(new KeyboardEvent(type, { code: "KeyC" }));
+      controller.update(0.016);
+    };
+
+    press("keydown");
+    expect(controller.getMotor().isCrouching()).toBe(true);
+    press("keyup");
+    expect(controller.getMotor().isCrouching()).toBe(false);
+
+    controller.setCrouchMode("toggle");
+    press("keydown");
+    press("keyup");
+    expect(controller.getMotor().isCrouching()).toBe(true);
+    press("keydown");
+    press("keyup");
+    expect(controller.getMotor().isCrouching()).toBe(false);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("latches sprint in toggle mode until movement stops", () => {
+    const { controller } = createController();
+    controller.updateOptions({ moveSpeed: 4, sprintMultiplier: 2, sprintMode: "toggle" });
+    const speed = () => controller.getState().velocity.length();
+    const key = (type: "keydown" | "keyup", code: string) =>
+      document.dispatchEvent(new KeyboardEvent(type, { code }));
+
+    key("keydown", "KeyW");
+    key("keydown", "ShiftLeft");
+    controller.update(0.016);
+    key("keyup", "ShiftLeft");
+    controller.update(0.016);
+    expect(speed()).toBeCloseTo(8);
+
+    key("keyup", "KeyW");
+    controller.update(0.016);
+    key("keydown", "KeyW");
+    controller.update(0.016);
+    expect(speed()).toBeCloseTo(4);
+
+    key("keyup", "KeyW");
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
   it("handles sprint multiplier correctly", () => {
     const { controller } = createController();
 
@@ -354,4 +407,618 @@ describe("FirstPersonController", () => {
     controller.dispose();
     document.body.removeChild(element);
   });
+
+  it("flies up and down with the ascend/descend keys in fly mode", () => {
+    const { controller, camera } = createController();
+    controller.startRecording();
+    controller.setMovementMode("fly");
+    const startY = controller.getState().position.y;
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyE" }));
+    controller.update(0.5);
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyE" }));
+    controller.update(0.5);
+
+    expect(controller.getMovementMode()).toBe("fly");
+    expect(controller.getState().position.y).toBeCloseTo(startY + 2.5);
+    expect(camera.position.y).toBeCloseTo(startY + 2.5);
+    expect(controller.serialize().motor.movementMode).toBe("fly");
+    expect(controller.stopRecording()?.events).toEqual([
+      { frame: 0, options: { movementMode: "fly" } },
+    ]);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("layers camera effects on the camera without touching the simulation", () => {
+    const { controller, camera } = createController();
+    controller.setCameraEffects({ bobAmplitude: 0.1 });
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyD" }));
+    let maxBob = 0;
+    for (let i = 0; i < 30; i++) {
+      controller.update(1 / 60);
+      maxBob = Math.max(maxBob, Math.abs(camera.position.y - controller.getState().position.y));
+    }
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyD" }));
+
+    expect(controller.getState().position.x).toBeCloseTo(2.5);
+    expect(controller.getState().position.y).toBe(1.6);
+    expect(maxBob).toBeGreaterThan(0.01);
+    expect(new THREE.Euler().setFromQuaternion(camera.quaternion, "YXZ").z).toBeLessThan(0);
+
+    controller.updateOptions({ cameraEffects: { reducedMotion: true } });
+    expect(camera.position.distanceTo(controller.getState().position)).toBe(0);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("collides with scene geometry when collision is enabled", () => {
+    const { controller } = createController();
+    const world = new THREE.Group();
+    const wall = new THREE.Mesh(new THREE.BoxGeometry(10, 4, 1), new THREE.MeshBasicMaterial());
+    wall.position.set(0, 2, -7);
+    world.add(wall);
+    const onCollision = vi.fn();
+
+    controller.updateOptions({ collision: { world, radius: 0.4, onCollision } });
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    for (let i = 0; i < 60; i++) {
+      controller.update(0.016);
+    }
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+
+    const state = controller.getState();
+    expect(state.position.z).toBeGreaterThanOrEqual(-6.5 + 0.4 - 1e-3);
+    expect(state.onGround).toBe(true);
+    expect(onCollision).toHaveBeenCalled();
+    expect(controller.getCollisionContacts().length).toBeGreaterThan(0);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("stands on top of collision geometry", () => {
+    const { controller } = createController();
+    const world = new THREE.Group();
+    const block = new THREE.Mesh(new THREE.BoxGeometry(4, 1, 4), new THREE.MeshBasicMaterial());
+    block.position.set(0, 0.5, -5);
+    world.add(block);
+
+    controller.updateOptions({ collision: { world } });
+    controller.getMotor().setState({ position: new THREE.Vector3(0, 3, -5), onGround: false });
+
+    for (let i = 0; i < 120; i++) {
+      controller.update(0.016);
+    }
+
+    const state = controller.getState();
+    expect(state.onGround).toBe(true);
+    expect(state.position.y).toBeCloseTo(1 + controller.getHeight(), 1);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("accelerates and decelerates with a smoothed movement model", () => {
+    const { controller } = createController();
+    const horizontalSpeed = () => {
+      const { velocity } = controller.getState();
+      return Math.hypot(velocity.x, velocity.z);
+    };
+
+    controller.setMovementConfig({ moveSpeed: 5, groundAcceleration: 20, groundDeceleration: 10 });
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    controller.update(0.1);
+    expect(horizontalSpeed()).toBeCloseTo(2);
+
+    for (let i = 0; i < 10; i++) {
+      controller.update(0.1);
+    }
+    expect(horizontalSpeed()).toBeCloseTo(5);
+
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+    controller.update(0.1);
+    expect(horizontalSpeed()).toBeCloseTo(4);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("limits steering in the air with air control and keeps momentum", () => {
+    const { controller } = createController();
+    controller.setMovementConfig({
+      ...MOVEMENT_PRESETS.smooth,
+      airAcceleration: 10,
+      airControl: 0.5,
+      airDrag: 0,
+    });
+    controller.getMotor().setState({
+      position: new THREE.Vector3(0, 10, -5),
+      velocity: new THREE.Vector3(3, 0, 0),
+      onGround: false,
+    });
+
+    controller.update(0.1);
+    expect(controller.getState().velocity.x).toBeCloseTo(3);
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    controller.update(0.1);
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+
+    const { velocity } = controller.getState();
+    expect(Math.hypot(3 - velocity.x, velocity.z)).toBeCloseTo(0.5);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("clamps horizontal speed to maxHorizontalSpeed", () => {
+    const { controller } = createController();
+    controller.setMovementConfig({ moveSpeed: 10, maxHorizontalSpeed: 4 });
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    controller.update(0.1);
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+
+    const { velocity } = controller.getState();
+    expect(Math.hypot(velocity.x, velocity.z)).toBeCloseTo(4);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("merges registered input sources with the keyboard", () => {
+    const { controller } = createController();
+    const pressed = new Set<MovementAction>();
+    const driver: InputSource = {
+      poll: vi.fn(),
+      getMoveVector: () => ({ x: 1, y: 0 }),
+      consumeLookDelta: (delta) => ({ x: 0.5 * delta, y: 0 }),
+      isActionPressed: (action) => pressed.has(action),
+    };
+
+    controller.addInputSource(driver);
+    pressed.add("jump");
+    controller.update(0.1);
+
+    const state = controller.getState();
+    expect(driver.poll).toHaveBeenCalledWith(0.1);
+    expect(Math.hypot(state.velocity.x, state.velocity.z)).toBeCloseTo(5);
+    expect(state.velocity.y).toBeGreaterThan(0);
+    expect(state.yaw).toBeCloseTo(-0.05);
+
+    controller.removeInputSource(driver);
+    expect(controller.getInputSources()).not.toContain(driver);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("ignores mouse look once the keyboard/mouse source is removed", () => {
+    const { controller, element } = createController();
+    const [keyboardMouse] = controller.getInputSources();
+
+    controller.removeInputSource(keyboardMouse!);
+    element.dispatchEvent(new MouseEvent("mousemove", { movementX: 100, bubbles: true }));
+
+    expect(controller.getState().yaw).toBe(0);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("runs mouse look through the shared pipeline and smooths it over updates", () => {
+    const { controller, element } = createController();
+    controller.updateOptions({
+      lookSensitivity: 0.01,
+      mouseLook: { sensitivityY: 0.5, invertY: true, smoothing: 0.05 },
+    });
+
+    element.dispatchEvent(
+      new MouseEvent("mousemove", { movementX: 10, movementY: 10, bubbles: true }),
+    );
+    expect(controller.getState().yaw).toBe(0);
+
+    controller.update(0.05);
+    expect(controller.getState().yaw).toBeCloseTo(-0.1 * (1 - Math.exp(-1)));
+
+    for (let i = 0; i < 30; i++) controller.update(0.05);
+    expect(controller.getState().yaw).toBeCloseTo(-0.1);
+    expect(controller.getState().pitch).toBeCloseTo(0.05);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("produces frame-rate independent jumps with a fixed time step", () => {
+    const simulateJump = (frameDelta: number) => {
+      const { controller } = createController();
+      controller.updateOptions({ fixedTimeStep: 1 / 120 });
+
+      document.dispatchEvent(new KeyboardEvent("keydown", { code: "Space" }));
+      controller.update(1 / 120);
+      document.dispatchEvent(new KeyboardEvent("keyup", { code: "Space" }));
+
+      let apex = 0;
+      for (let frame = 0; frame < Math.round(1 / frameDelta); frame++) {
+        controller.update(frameDelta);
+        apex = Math.max(apex, controller.getState().position.y);
+      }
+
+      const state = controller.getState();
+      controller.dispose();
+      document.body.innerHTML = "";
+      return { apex, state };
+    };
+
+    const slow = simulateJump(1 / 30);
+    const fast = simulateJump(1 / 240);
+
+    expect(slow.apex).toBeCloseTo(fast.apex, 1);
+    expect(slow.state.onGround).toBe(true);
+    expect(fast.state.onGround).toBe(true);
+    expect(slow.state.position.y).toBe(fast.state.position.y);
+  });
+
+  it("interpolates the camera between fixed simulation steps", () => {
+    const { controller, camera } = createController();
+    controller.setFixedTimeStep(0.1);
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    controller.update(0.1);
+    const afterFirstStep = controller.getState().position.z;
+    controller.update(0.05);
+
+    const simulatedZ = controller.getState().position.z;
+    expect(simulatedZ).toBeCloseTo(afterFirstStep);
+    expect(camera.position.z).toBeGreaterThan(afterFirstStep);
+
+    controller.update(0.05);
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+    const secondStepZ = controller.getState().position.z;
+    expect(secondStepZ).toBeLessThan(afterFirstStep);
+    // The camera trails the simulation by one step so it can blend towards the latest state.
+    expect(camera.position.z).toBeCloseTo(afterFirstStep);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("limits catch-up work to maxSubSteps after a hitch", () => {
+    const { controller } = createController();
+    controller.updateOptions({ fixedTimeStep: 0.01, maxSubSteps: 3 });
+    const step = vi.spyOn(controller.getMotor(), "step");
+
+    controller.update(1);
+
+    expect(step).toHaveBeenCalledTimes(3);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("serializes and restores the full runtime state mid-crouch", () => {
+    const { controller, camera } = createController();
+    controller.updateOptions({
+      enableCrouch: true,
+      lookSensitivity: 0.004,
+      mouseLook: { invertY: true, acceleration: 0.2 },
+      maxSlopeAngle: 30,
+      keyBindings: { jump: ["KeyJ"] },
+      ...MOVEMENT_PRESETS.smooth,
+    });
+    controller.setLookAngles(0.5, -0.2);
+    controller.update(1);
+    controller.setCrouch(true);
+    controller.update(0.03);
+
+    const snapshot = JSON.parse(JSON.stringify(controller.serialize())) as ReturnType<
+      FirstPersonController["serialize"]
+    >;
+    expect(snapshot.version).toBe(2);
+    expect(snapshot.motor.crouching).toBe(true);
+    expect(snapshot.motor.height).toBeLessThan(1.6);
+    expect(snapshot.motor.height).toBeGreaterThan(snapshot.motor.crouchHeight);
+    expect(snapshot.motor.maxSlopeAngle).toBeCloseTo(30);
+    expect(snapshot.options.keyBindings.jump).toEqual(["KeyJ"]);
+    expect(snapshot.options.mouseLook.invertY).toBe(true);
+
+    const restored = createController();
+    restored.controller.restore(snapshot);
+
+    expect(restored.controller.serialize()).toEqual(snapshot);
+    expect(restored.camera.position.toArray()).toEqual(camera.position.toArray());
+
+    controller.update(0.05);
+    restored.controller.update(0.05);
+    expect(restored.controller.getState()).toEqual(controller.getState());
+
+    controller.dispose();
+    restored.controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("keeps infinite settings through a JSON round trip", () => {
+    const { controller } = createController();
+    controller.updateOptions({
+      mouseLook: { accelerationLimit: Infinity },
+      maxStepHeight: Infinity,
+      airJumps: Infinity,
+      ladderClimbSpeed: Infinity,
+      stamina: { maxStamina: Infinity, regenDelay: Infinity },
+    });
+    controller.update(0.05);
+
+    const snapshot = controller.serialize();
+    const json = JSON.parse(JSON.stringify(snapshot)) as typeof snapshot;
+    expect(json.options.mouseLook.accelerationLimit).toBe("Infinity");
+    expect(json.motor.stamina?.current).toBe("Infinity");
+
+    const restored = createController();
+    restored.controller.restore(json);
+
+    expect(restored.controller.serialize()).toEqual(snapshot);
+
+    controller.dispose();
+    restored.controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("rejects snapshots from another version", () => {
+    const { controller } = createController();
+
+    expect(() => controller.restore({ ...controller.serialize(), version: 1 })).toThrow(/version/);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+  it("rolls the camera with the up axis when aligning to gravity", () => {
+    const { controller, camera } = createController();
+    controller.updateOptions({
+      gravityFn: () => new THREE.Vector3(-9.8, 0, 0),
+      alignToGravity: true,
+      upAlignSpeed: Infinity,
+    });
+    controller.setLookAngles(0.3, 0);
+
+    controller.update(1 / 60);
+
+    const cameraUp = new THREE.Vector3(0, 1, 0).applyQuaternion(camera.quaternion);
+    expect(cameraUp.x).toBeCloseTo(1, 5);
+    expect(controller.getUp(new THREE.Vector3()).x).toBeCloseTo(1, 5);
+    expect(controller.getState().yaw).toBeCloseTo(0.3);
+
+    const restored = createController();
+    restored.controller.restore(JSON.parse(JSON.stringify(controller.serialize())));
+    expect(restored.camera.quaternion.toArray()).toEqual(camera.quaternion.toArray());
+
+    controller.dispose();
+    restored.controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("reports the debug speed across the turned up axis", () => {
+    const { controller } = createController();
+    controller.updateOptions({
+      gravityFn: () => new THREE.Vector3(-9.8, 0, 0),
+      alignToGravity: true,
+      upAlignSpeed: Infinity,
+    });
+    controller.update(1 / 60);
+
+    controller.getMotor().setState({ velocity: new THREE.Vector3(-3, 0, -4) });
+
+    expect(controller.getDebugInfo().speed).toBeCloseTo(4);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("emits jump, leave-ground and land events next to the option callbacks", () => {
+    const { controller } = createController();
+    const onJump = vi.fn();
+    controller.updateOptions({ onJump });
+    const log: string[] = [];
+    const onLand = vi.fn();
+    controller.on("jump", () => log.push("jump"));
+    controller.on("leaveGround", () => log.push("leaveGround"));
+    controller.on("land", onLand);
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "Space" }));
+    controller.update(0.016);
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "Space" }));
+    for (let i = 0; i < 120 && onLand.mock.calls.length === 0; i++) {
+      controller.update(0.016);
+    }
+
+    expect(log).toEqual(["jump", "leaveGround"]);
+    expect(onJump).toHaveBeenCalledTimes(1);
+    expect(onJump.mock.calls[0]?.[0].index).toBe(0);
+    expect(onLand).toHaveBeenCalledTimes(1);
+    expect(onLand.mock.calls[0]?.[0].impactSpeed).toBeGreaterThan(3);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("reports the impact speed of the landing tick itself", () => {
+    const { controller } = createController();
+    const onLand = vi.fn();
+    controller.on("land", onLand);
+    controller.update(0.1);
+    controller.getMotor().setState({ position: new THREE.Vector3(0, 3.6, 0), onGround: false });
+
+    // Falls 0.2, 0.6, 1.2 and 2 m with gravity 20, touching down on the fourth 0.1 s tick.
+    for (let i = 0; i < 4; i++) controller.update(0.1);
+
+    expect(onLand).toHaveBeenCalledTimes(1);
+    expect(onLand.mock.calls[0]?.[0].impactSpeed).toBeCloseTo(8);
+    expect(onLand.mock.calls[0]?.[0].velocity.y).toBeCloseTo(-8);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("sizes the landing dip from the touchdown speed across fixed sub-steps", () => {
+    const { controller } = createController();
+    controller.updateOptions({ cameraEffects: {}, fixedTimeStep: 0.05, maxSubSteps: 10 });
+    const dip = vi.spyOn(CameraEffects.prototype, "land");
+    const onLand = vi.fn();
+    controller.on("land", onLand);
+    controller.update(0.1);
+    controller.getMotor().setState({ position: new THREE.Vector3(0, 3.6, 0), onGround: false });
+
+    for (let i = 0; i < 3; i++) controller.update(0.2);
+
+    expect(onLand).toHaveBeenCalledTimes(1);
+    expect(dip).toHaveBeenCalledTimes(1);
+    expect(dip.mock.calls[0]?.[0]).toBeCloseTo(onLand.mock.calls[0]?.[0].impactSpeed);
+
+    dip.mockRestore();
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("emits crouch, sprint, look and dispose events to every listener", () => {
+    const { controller } = createController();
+    controller.updateOptions({ enableCrouch: true });
+    const log: string[] = [];
+    for (const type of ["crouch", "stand", "sprintStart", "sprintStop", "dispose"] as const) {
+      controller.on(type, () => log.push(type));
+    }
+    const onLook = vi.fn();
+    controller.once("lookChange", onLook);
+    const key = (type: "keydown" | "keyup", code: string) => {
+      document.dispatchEvent(new KeyboardEvent(type, { code }));
+      controller.update(0.016);
+    };
+
+    key("keydown", "KeyC");
+    key("keyup", "KeyC");
+    key("keydown", "KeyW");
+    key("keydown", "ShiftLeft");
+    key("keyup", "KeyW");
+    key("keyup", "ShiftLeft");
+    controller.setLookAngles(0.5, 0.1);
+    controller.setLookAngles(0.6, 0.1);
+    controller.dispose();
+
+    expect(log).toEqual(["crouch", "stand", "sprintStart", "sprintStop", "dispose"]);
+    expect(onLook.mock.calls).toEqual([[0.5, 0.1]]);
+    document.body.innerHTML = "";
+  });
+
+  it("emits footsteps with the ground surface while walking", () => {
+    const { controller } = createController();
+    controller.updateOptions({
+      moveSpeed: 5,
+      footsteps: { stepDistance: 1 },
+      groundCheckFn: (state) => ({
+        onGround: state.position.y <= 1.6,
+        groundNormal: new THREE.Vector3(0, 1, 0),
+        groundHeight: 0,
+        surface: "gravel",
+      }),
+    });
+    const steps: FootstepEvent[] = [];
+    controller.on("footstep", (event) => steps.push(event));
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    for (let i = 0; i < 60; i++) {
+      controller.update(1 / 60);
+    }
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+
+    expect(steps.map((step) => step.foot)).toEqual(["left", "right", "left", "right", "left"]);
+    expect(steps.every((step) => step.surface === "gravel")).toBe(true);
+    expect(steps[0]?.speed).toBeCloseTo(5);
+    expect(controller.getMotor().getGroundInfo()?.surface).toBe("gravel");
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("climbs ladder meshes with the forward key", () => {
+    const { controller } = createController();
+    const ladder = new THREE.Mesh(new THREE.BoxGeometry(1, 4, 0.4), new THREE.MeshBasicMaterial());
+    ladder.position.set(0, 2, -5.1);
+    controller.addLadder(ladder);
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    controller.update(0.25);
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+
+    expect(controller.isOnLadder()).toBe(true);
+    expect(controller.getState().position.y).toBeGreaterThan(2.2);
+
+    controller.removeLadder(ladder);
+    controller.update(0.1);
+    expect(controller.isOnLadder()).toBe(false);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("emits water and underwater events while swimming", () => {
+    const { controller } = createController();
+    const water = new THREE.Box3(new THREE.Vector3(-10, -1, -15), new THREE.Vector3(10, 3, 5));
+    const log: string[] = [];
+    controller.on("waterEnter", () => log.push("waterEnter"));
+    controller.on("waterExit", () => log.push("waterExit"));
+    controller.on("underwaterEnter", () => log.push("underwaterEnter"));
+    controller.on("underwaterExit", () => log.push("underwaterExit"));
+
+    controller.addWater(water);
+    controller.update(1 / 60);
+    expect(controller.isSwimming()).toBe(true);
+    expect(controller.isUnderwater()).toBe(true);
+
+    for (let i = 0; i < 300; i++) controller.update(1 / 60);
+    controller.removeWater(water);
+    controller.update(1 / 60);
+
+    expect(log).toEqual(["waterEnter", "underwaterEnter", "underwaterExit", "waterExit"]);
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("rides a turning platform without walking footsteps", () => {
+    const { controller } = createController();
+    const platform = new THREE.Object3D();
+    controller.updateOptions({
+      footsteps: { stepDistance: 1 },
+      groundCheckFn: (state) => ({
+        onGround: state.position.y <= 1.6,
+        groundNormal: new THREE.Vector3(0, 1, 0),
+        groundHeight: 0,
+        groundObject: platform,
+      }),
+    });
+    const onFootstep = vi.fn();
+    const onLookChange = vi.fn();
+    controller.on("footstep", onFootstep);
+    controller.on("lookChange", onLookChange);
+    controller.update(1 / 60);
+
+    for (let i = 0; i < 60; i++) {
+      platform.rotation.y += Math.PI / 120;
+      controller.update(1 / 60);
+    }
+
+    const state = controller.getState();
+    expect(state.position.x).toBeCloseTo(-5);
+    expect(state.position.z).toBeCloseTo(0);
+    expect(state.yaw).toBeCloseTo(Math.PI / 2);
+    expect(onLookChange).toHaveBeenCalled();
+    expect(onFootstep).not.toHaveBeenCalled();
+
+    controller.dispose();
+    document.body.innerHTML = "";
+  });
 });
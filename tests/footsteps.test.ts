@@ -0,0 +1,39 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+
+import { Footsteps } from "../src/movement/Footsteps.js";
+
+const walk = (footsteps: Footsteps, metres: number, sprinting = false, crouching = false) => {
+  const steps: string[] = [];
+  for (let travelled = 0; travelled < metres; travelled += 0.25) {
+    const foot = footsteps.advance(0.25, sprinting, crouching);
+    if (foot) steps.push(`${foot}@${travelled + 0.25}`);
+  }
+  return steps;
+};
+
+describe("Footsteps", () => {
+  it("steps every stepDistance metres with alternating feet, starting mid-stride", () => {
+    const footsteps = new Footsteps({ stepDistance: 1 });
+
+    expect(walk(footsteps, 3)).toEqual(["left@0.5", "right@1.5", "left@2.5"]);
+  });
+
+  it("scales the stride while sprinting and crouching", () => {
+    const options = { stepDistance: 1, sprintStepScale: 2, crouchStepScale: 0.5 };
+
+    expect(walk(new Footsteps(options), 4, true)).toHaveLength(2);
+    expect(walk(new Footsteps(options), 2, false, true)).toHaveLength(4);
+  });
+
+  it("restarts mid-stride after a reset", () => {
+    const footsteps = new Footsteps({ stepDistance: 1 });
+    walk(footsteps, 0.75);
+
+    footsteps.reset();
+
+    expect(walk(footsteps, 0.5)).toEqual(["right@0.5"]);
+  });
+});
@@ -0,0 +1,94 @@
+/// <reference types="vitest" />
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+
+import { FirstPersonController } from "../src/FirstPersonController.js";
+import { GamepadControls } from "../src/input/GamepadControls.js";
+
+const createGamepad = (axes: number[], pressed: number[] = []): Gamepad =>
+  ({
+    id: "test-pad",
+    index: 0,
+    connected: true,
+    mapping: "standard",
+    timestamp: 0,
+    axes,
+    buttons: Array.from({ length: 17 }, (_, index) => ({
+      pressed: pressed.includes(index),
+      touched: pressed.includes(index),
+      value: pressed.includes(index) ? 1 : 0,
+    })),
+  }) as unknown as Gamepad;
+
+const stubGamepads = (gamepads: Array<Gamepad | null>) => {
+  Object.defineProperty(navigator, "getGamepads", {
+    configurable: true,
+    value: vi.fn(() => gamepads),
+  });
+};
+
+describe("GamepadControls", () => {
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, "getGamepads");
+  });
+
+  it("applies a radial dead zone and response curve to the sticks", () => {
+    const controls = new GamepadControls({ deadZone: 0.2, responseCurve: 2 });
+
+    stubGamepads([createGamepad([0.1, -0.1, 0, 0])]);
+    controls.poll();
+    expect(controls.getMoveVector()).toEqual({ x: 0, y: 0 });
+
+    stubGamepads([createGamepad([0, -0.6, 0, 0])]);
+    controls.poll();
+    expect(controls.getMoveVector().x).toBeCloseTo(0);
+    expect(controls.getMoveVector().y).toBeCloseTo(0.25);
+  });
+
+  it("maps buttons to movement actions and honours invert options", () => {
+    const controls = new GamepadControls({ invertY: true, lookSpeed: 2, deadZone: 0 });
+    stubGamepads([null, createGamepad([0, 0, 0, 1], [0, 12])]);
+
+    controls.poll();
+
+    expect(controls.isConnected()).toBe(true);
+    expect(controls.isActionPressed("jump")).toBe(true);
+    expect(controls.isActionPressed("forward")).toBe(true);
+    expect(controls.isActionPressed("sprint")).toBe(false);
+    expect(controls.getLookRate().y).toBeCloseTo(-2);
+
+    controls.updateBindings({ sprint: [0] });
+    expect(controls.isActionPressed("sprint")).toBe(true);
+  });
+
+  it("reports nothing when the Gamepad API is unavailable", () => {
+    const controls = new GamepadControls();
+
+    controls.poll();
+
+    expect(controls.isConnected()).toBe(false);
+    expect(controls.getLookRate()).toEqual({ x: 0, y: 0 });
+  });
+
+  it("drives analog movement and look on the controller during update", () => {
+    const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+    const element = document.createElement("div");
+    const controller = new FirstPersonController(camera, {
+      element,
+      enablePointerLock: false,
+      moveSpeed: 4,
+      gamepad: { deadZone: 0, responseCurve: 1, lookSpeed: 1 },
+    });
+
+    stubGamepads([createGamepad([0, -0.5, 1, 0])]);
+    controller.update(0.1);
+
+    const state = controller.getState();
+    expect(Math.hypot(state.velocity.x, state.velocity.z)).toBeCloseTo(2);
+    expect(state.yaw).toBeCloseTo(-0.1);
+    expect(controller.isGamepadConnected()).toBe(true);
+
+    controller.dispose();
+  });
+});
@@ -0,0 +1,83 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+import type { GravityFn, GroundCheckFn } from "../src/types.js";
+
+const PLANET_RADIUS = 10;
+const towardsCenter: GravityFn = (position) => position.normalize().multiplyScalar(-9.8);
+const planetSurface: GroundCheckFn = (state, _delta, height, up) => {
+  const normal = state.position.clone().normalize();
+  const distanceBelowFeet = state.position.length() - height - PLANET_RADIUS;
+  return {
+    onGround: state.velocity.dot(up) > 0 ? distanceBelowFeet <= 0 : distanceBelowFeet <= 0.1,
+    groundNormal: normal,
+    groundPoint: normal.clone().multiplyScalar(PLANET_RADIUS),
+  };
+};
+const sideways: GravityFn = () => new THREE.Vector3(-9.8, 0, 0);
+const upOf = (motor: CharacterMotor) => motor.getUp(new THREE.Vector3());
+
+describe("gravity alignment", () => {
+  it("keeps world y as up unless enabled", () => {
+    const motor = new CharacterMotor({ gravityFn: sideways });
+
+    motor.step(1 / 60);
+
+    expect(upOf(motor).toArray()).toEqual([0, 1, 0]);
+  });
+
+  it("turns the up axis towards gravity gradually", () => {
+    const motor = new CharacterMotor({ gravityFn: sideways, alignToGravity: true });
+
+    motor.step(1 / 60);
+    const partial = upOf(motor);
+    for (let i = 0; i < 120; i++) {
+      motor.step(1 / 60);
+    }
+
+    expect(partial.x).toBeGreaterThan(0.05);
+    expect(partial.x).toBeLessThan(0.5);
+    expect(upOf(motor).x).toBeCloseTo(1, 3);
+    const view = motor.getUpOrientation(new THREE.Quaternion());
+    expect(new THREE.Vector3(0, 1, 0).applyQuaternion(view).x).toBeCloseTo(1, 3);
+  });
+
+  it("walks around a spherical planet on its tangent plane", () => {
+    const motor = new CharacterMotor({
+      moveSpeed: 5,
+      gravityFn: towardsCenter,
+      groundCheckFn: planetSurface,
+      alignToGravity: true,
+      upAlignSpeed: Infinity,
+      initialPosition: new THREE.Vector3(0, PLANET_RADIUS + 1.6, 0),
+    });
+    const start = motor.getPosition(new THREE.Vector3()).normalize();
+
+    for (let i = 0; i < 300; i++) {
+      const state = motor.step(1 / 60, { move: { x: 0, y: 1 } });
+      expect(state.position.length()).toBeCloseTo(PLANET_RADIUS + 1.6, 2);
+    }
+
+    const state = motor.getState();
+    expect(state.onGround).toBe(true);
+    expect(state.velocity.dot(upOf(motor))).toBeCloseTo(0, 5);
+    expect(upOf(motor).dot(state.position.clone().normalize())).toBeCloseTo(1, 3);
+    // ~25 m at eye level on a 10 m planet: past the equator.
+    expect(start.angleTo(state.position.clone().normalize())).toBeGreaterThan(Math.PI / 2);
+  });
+
+  it("round-trips the up orientation through snapshots", () => {
+    const motor = new CharacterMotor({ gravityFn: sideways, alignToGravity: true });
+    motor.step(0.2, { move: { x: 1, y: 1 }, yaw: 0.4 });
+
+    const copy = new CharacterMotor({ gravityFn: sideways });
+    copy.restore(JSON.parse(JSON.stringify(motor.serialize())));
+
+    expect(copy.step(0.1)).toEqual(motor.step(0.1));
+    expect(upOf(copy)).toEqual(upOf(motor));
+  });
+});
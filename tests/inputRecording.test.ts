@@ -0,0 +1,215 @@
+/// <reference types="vitest" />
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+
+import { FirstPersonController } from "../src/FirstPersonController.js";
+import { MOVEMENT_PRESETS } from "../src/constants.js";
+import type { FirstPersonControllerOptions, InputRecording } from "../src/types.js";
+
+const createController = (options: Partial<FirstPersonControllerOptions> = {}) => {
+  const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+  const element = document.createElement("div");
+  element.tabIndex = 0;
+  document.body.appendChild(element);
+  element.focus();
+  Object.assign(element, { requestPointerLock: vi.fn() });
+
+  return {
+    camera,
+    element,
+    controller: new FirstPersonController(camera, {
+      element,
+      enablePointerLock: false,
+      enableCrouch: true,
+      ...MOVEMENT_PRESETS.smooth,
+      ...options,
+    }),
+  };
+};
+
+const key = (type: "keydown" | "keyup", code: string) =>
+  document.dispatchEvent(new KeyboardEvent(type, { code }));
+
+const recordSession = (): { recording: InputRecording; final: string } => {
+  const { controller, element } = createController();
+  controller.update(0.016);
+  controller.startRecording();
+
+  const deltas = [0.016, 0.021, 0.009, 0.033, 0.016, 0.017, 0.025, 0.012];
+  deltas.forEach((delta, frame) => {
+    if (frame === 1) key("keydown", "KeyW");
+    if (frame === 2) element.dispatchEvent(new MouseEvent("mousemove", { movementX: 40 }));
+    if (frame === 3) key("keydown", "Space");
+    if (frame === 4) controller.updateOptions({ element, moveSpeed: 9, gravity: 15 });
+    if (frame === 5) key("keyup", "Space");
+    if (frame === 6) controller.setCrouch(true);
+    controller.update(delta);
+  });
+
+  key("keyup", "KeyW");
+  const recording = controller.stopRecording();
+  const final = JSON.stringify(controller.getState());
+  controller.dispose();
+
+  if (!recording) {
+    throw new Error("Expected a recording");
+  }
+  return { recording, final };
+};
+
+describe("Input recording", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("captures frames and option changes as plain JSON", () => {
+    const { recording } = recordSession();
+
+    expect(recording.frames).toHaveLength(8);
+    expect(recording.events).toEqual([{ frame: 4, options: { moveSpeed: 9, gravity: 15 } }]);
+    expect(recording.start.motor.config.groundAcceleration).toBe(
+      MOVEMENT_PRESETS.smooth.groundAcceleration,
+    );
+    expect(JSON.parse(JSON.stringify(recording))).toEqual(recording);
+  });
+
+  it("replays a serialized recording to an identical final state", () => {
+    const { recording, final } = recordSession();
+    const parsed = JSON.parse(JSON.stringify(recording)) as InputRecording;
+
+    const { controller } = createController();
+    controller.setLookAngles(1, 0.2);
+    controller.update(0.5);
+
+    const state = controller.replay(parsed);
+
+    expect(JSON.stringify(state)).toBe(final);
+    expect(controller.isReplaying()).toBe(false);
+    controller.dispose();
+  });
+
+  it("drives replay from update calls and ignores live input meanwhile", () => {
+    const { recording, final } = recordSession();
+    const { controller } = createController();
+    const onComplete = vi.fn();
+
+    controller.startReplay(recording, onComplete);
+    key("keydown", "KeyS");
+    for (let i = 0; i < recording.frames.length; i++) {
+      expect(controller.isReplaying()).toBe(true);
+      controller.update(1);
+    }
+    key("keyup", "KeyS");
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(controller.isReplaying()).toBe(false);
+    expect(JSON.stringify(controller.getState())).toBe(final);
+    controller.dispose();
+  });
+
+  it("replays a recording that starts standing on a slope", () => {
+    const angle = THREE.MathUtils.degToRad(20);
+    const slope: Partial<FirstPersonControllerOptions> = {
+      initialPosition: new THREE.Vector3(0, 1.6, 0),
+      uphillSpeedMultiplier: 0.4,
+      groundAcceleration: 200,
+      groundCheckFn: (state, _delta, height) => {
+        const surface = -state.position.z * Math.tan(angle);
+        return {
+          onGround: state.velocity.y <= 0 && state.position.y - height - surface <= 0.05,
+          groundNormal: new THREE.Vector3(0, Math.cos(angle), Math.sin(angle)),
+          groundHeight: surface,
+        };
+      },
+    };
+    const { controller } = createController(slope);
+    controller.update(0.1);
+    controller.startRecording();
+
+    key("keydown", "KeyW");
+    [0.05, 0.03, 0.04].forEach((delta) => controller.update(delta));
+    key("keyup", "KeyW");
+
+    const recording = controller.stopRecording()!;
+    const final = JSON.stringify(controller.getState());
+    controller.dispose();
+
+    const replayed = createController(slope).controller;
+    expect(JSON.stringify(replayed.replay(recording))).toBe(final);
+    replayed.dispose();
+  });
+
+  it("records setter calls so their replays match", () => {
+    const { controller } = createController();
+    controller.update(0.016);
+    controller.startRecording();
+
+    key("keydown", "KeyW");
+    key("keydown", "ShiftLeft");
+    controller.update(0.02);
+    controller.setSprintMultiplier(3);
+    controller.setFixedTimeStep(1 / 90, 4);
+    controller.update(0.03);
+    controller.setSprintMode("toggle");
+    controller.enableCrouch(false);
+    controller.update(0.025);
+    key("keyup", "ShiftLeft");
+    key("keyup", "KeyW");
+
+    const recording = controller.stopRecording()!;
+    const final = JSON.stringify(controller.getState());
+    controller.dispose();
+
+    expect(recording.events.map((event) => event.options)).toEqual([
+      { sprintMultiplier: 3 },
+      { fixedTimeStep: 1 / 90, maxSubSteps: 4 },
+      { sprintMode: "toggle" },
+      { enableCrouch: false },
+    ]);
+    const replayed = createController().controller;
+    expect(JSON.stringify(replayed.replay(recording))).toBe(final);
+    expect(replayed.serialize().options.sprintMode).toBe("toggle");
+    replayed.dispose();
+  });
+
+  it("rejects recordings with changes that cannot be replayed", () => {
+    const { controller } = createController();
+    controller.startRecording();
+    controller.update(0.016);
+    controller.addLadder(new THREE.Box3());
+    controller.updateOptions({ stamina: { maxStamina: 50 } });
+    controller.update(0.016);
+
+    const recording = controller.stopRecording()!;
+    expect(recording.unreplayable).toEqual(["addLadder", "stamina"]);
+    expect(() => controller.startReplay(recording)).toThrow(/addLadder, stamina/);
+    expect(controller.isReplaying()).toBe(false);
+
+    controller.dispose();
+  });
+
+  it("rejects recordings from another format version", () => {
+    const { recording } = recordSession();
+    const { controller } = createController();
+
+    expect(() => controller.startReplay({ ...recording, version: 99 })).toThrow(/version/);
+    controller.dispose();
+  });
+
+  it("refuses to replay on a disposed controller and ends a replay cut short by dispose", () => {
+    const { recording } = recordSession();
+    const disposed = createController();
+    disposed.controller.dispose();
+
+    expect(() => disposed.controller.replay(recording)).toThrow(/disposed/);
+    expect(disposed.controller.isReplaying()).toBe(false);
+
+    const { controller } = createController();
+    const onLookChange = vi.fn(() => controller.dispose());
+    controller.on("lookChange", onLookChange);
+    controller.replay(recording);
+    expect(onLookChange).toHaveBeenCalledTimes(1);
+    expect(controller.isReplaying()).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+import type { CharacterMotorOptions, GroundCheckFn, MotorInput } from "../src/types.js";
+
+const DT = 1 / 60;
+const jump: MotorInput = { actions: ["jump"] };
+
+// Ground at y = 0 up to a ledge at z = -1, with a deep drop beyond it.
+const ledgeGround: GroundCheckFn = (state, _delta, height) => {
+  const floor = state.position.z > -1 ? 0 : -100;
+  const gap = state.position.y - height - floor;
+  return {
+    onGround: state.velocity.y <= 0 && gap <= 0,
+    groundNormal: new THREE.Vector3(0, 1, 0),
+    groundHeight: floor,
+  };
+};
+
+const createMotor = (options: CharacterMotorOptions = {}) => {
+  const onJump = vi.fn();
+  const motor = new CharacterMotor({
+    coyoteTime: 0.1,
+    jumpBufferTime: 0.1,
+    groundCheckFn: ledgeGround,
+    onJump,
+    ...options,
+  });
+  motor.step(DT);
+  return { motor, onJump };
+};
+
+const steps = (motor: CharacterMotor, count: number, input?: MotorInput) => {
+  for (let i = 0; i < count; i++) motor.step(DT, input);
+};
+
+// Drops from `height` above the ground and steps until the coyote time is long over.
+const fall = (motor: CharacterMotor, height: number) => {
+  motor.setState({ position: new THREE.Vector3(0, 1.6 + height, 0), onGround: false });
+  steps(motor, 8);
+  expect(motor.getState().onGround).toBe(false);
+};
+
+// Walks off the ledge from z = -0.95 and returns once the ground is gone.
+const walkOffLedge = (motor: CharacterMotor) => {
+  motor.setState({ position: new THREE.Vector3(0, 1.6, -0.95) });
+  motor.step(DT, { move: { x: 0, y: 1 } });
+  expect(motor.getState().onGround).toBe(false);
+};
+
+describe("Jumping", () => {
+  it("requires releasing jump between jumps", () => {
+    const { motor, onJump } = createMotor();
+
+    steps(motor, 120, jump);
+    expect(onJump).toHaveBeenCalledTimes(1);
+    expect(motor.getState().onGround).toBe(true);
+
+    motor.step(DT);
+    motor.step(DT, jump);
+    expect(onJump).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps hopping while held with holdToJump", () => {
+    const { motor, onJump } = createMotor({ holdToJump: true });
+
+    steps(motor, 120, jump);
+
+    expect(onJump.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it("still jumps shortly after walking off a ledge", () => {
+    const { motor, onJump } = createMotor();
+    walkOffLedge(motor);
+
+    steps(motor, 3);
+    motor.step(DT, jump);
+
+    expect(onJump).toHaveBeenCalledTimes(1);
+    expect(motor.getState().velocity.y).toBeGreaterThan(7);
+  });
+
+  it("does not jump once the coyote time is over or after a jump", () => {
+    const late = createMotor();
+    walkOffLedge(late.motor);
+    steps(late.motor, 8);
+    late.motor.step(DT, jump);
+    expect(late.onJump).not.toHaveBeenCalled();
+
+    const twice = createMotor();
+    twice.motor.step(DT, jump);
+    twice.motor.step(DT);
+    twice.motor.step(DT, jump);
+    expect(twice.onJump).toHaveBeenCalledTimes(1);
+  });
+
+  it("performs a jump pressed shortly before landing", () => {
+    const { motor, onJump } = createMotor();
+    fall(motor, 0.5);
+
+    motor.step(DT, jump);
+    expect(onJump).not.toHaveBeenCalled();
+    steps(motor, 5);
+
+    expect(onJump).toHaveBeenCalledTimes(1);
+    expect(motor.getState().velocity.y).toBeGreaterThan(7);
+  });
+
+  it("forgets a jump pressed too early", () => {
+    const { motor, onJump } = createMotor();
+    fall(motor, 2);
+
+    motor.step(DT, jump);
+    steps(motor, 60);
+
+    expect(motor.getState().onGround).toBe(true);
+    expect(onJump).not.toHaveBeenCalled();
+  });
+
+  it("matches the previous behaviour without coyote time and buffering", () => {
+    const { motor, onJump } = createMotor({ coyoteTime: 0, jumpBufferTime: 0, holdToJump: true });
+    walkOffLedge(motor);
+
+    motor.step(DT, jump);
+    expect(onJump).not.toHaveBeenCalled();
+
+    fall(motor, 0.5);
+    motor.step(DT, jump);
+    steps(motor, 5);
+    expect(motor.getState().onGround).toBe(true);
+    expect(onJump).not.toHaveBeenCalled();
+  });
+
+  it("cuts the jump short when jump is released while rising", () => {
+    const peak = (holdSteps: number) => {
+      const { motor } = createMotor({ jumpCutMultiplier: 0.4 });
+      let highest = 0;
+      for (let i = 0; i < 60; i++) {
+        motor.step(DT, i < holdSteps ? jump : {});
+        highest = Math.max(highest, motor.getState().position.y);
+      }
+      return highest;
+    };
+
+    const full = peak(60);
+    expect(full).toBeGreaterThan(3);
+    expect(peak(5)).toBeLessThan(1.6 + (full - 1.6) / 2);
+  });
+
+  it("allows air jumps with their own speed and reports the jump index", () => {
+    const { motor, onJump } = createMotor({ airJumps: 2, airJumpSpeed: 6 });
+
+    for (let i = 0; i < 4; i++) {
+      motor.step(DT, jump);
+      steps(motor, 5);
+    }
+
+    expect(onJump.mock.calls.map(([event]) => event.index)).toEqual([0, 1, 2]);
+    expect(onJump.mock.calls[2]?.[0].velocity.y).toBe(6);
+
+    steps(motor, 120);
+    motor.step(DT, jump);
+    expect(onJump).toHaveBeenCalledTimes(4);
+    expect(onJump.mock.calls[3]?.[0].index).toBe(0);
+  });
+
+  it("round-trips buffered jumps through snapshots", () => {
+    const { motor } = createMotor();
+    fall(motor, 0.5);
+    motor.step(DT, jump);
+
+    const copy = new CharacterMotor({ groundCheckFn: ledgeGround });
+    copy.restore(JSON.parse(JSON.stringify(motor.serialize())));
+
+    for (let i = 0; i < 5; i++) {
+      expect(copy.step(DT, jump)).toEqual(motor.step(DT, jump));
+    }
+    expect(motor.getState().velocity.y).toBeGreaterThan(7);
+  });
+});
@@ -12,6 +12,9 @@ const mockBindings: KeyBindings = {
   right: ["KeyD"],
   jump: ["Space"],
   sprint: ["ShiftLeft"],
+  ascend: ["KeyE"],
+  descend: ["KeyQ"],
+  crouch: ["KeyC"],
 };
 
 describe("KeyboardControls", () => {
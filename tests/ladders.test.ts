@@ -0,0 +1,104 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+import type { GroundCheckFn } from "../src/types.js";
+
+const LEDGE_HEIGHT = 3;
+// A ladder against a ledge that starts at z = -0.5 and faces +z, towards the player.
+const ladder = new THREE.Box3(new THREE.Vector3(-0.5, 0, -0.5), new THREE.Vector3(0.5, 3, 0.2));
+const ledgeGround: GroundCheckFn = (state, _delta, height) => {
+  const floor = state.position.z < -0.5 ? LEDGE_HEIGHT : 0;
+  const distanceBelowFeet = state.position.y - height - floor;
+  return {
+    onGround: state.velocity.y > 0 ? distanceBelowFeet <= 0 : distanceBelowFeet <= 0.05,
+    groundNormal: new THREE.Vector3(0, 1, 0),
+    groundHeight: floor,
+  };
+};
+
+const createMotor = () => {
+  const motor = new CharacterMotor({ ladderClimbSpeed: 2, groundCheckFn: ledgeGround });
+  motor.addLadder(ladder, { normal: new THREE.Vector3(0, 0, 1) });
+  return motor;
+};
+
+const climb = { move: { x: 0, y: 1 } };
+
+describe("Ladders", () => {
+  it("climbs along the up axis and hangs without gravity", () => {
+    const motor = createMotor();
+
+    motor.step(0.5, climb);
+    expect(motor.isOnLadder()).toBe(true);
+    expect(motor.getState().position.y).toBeCloseTo(2.6);
+    expect(motor.getState().position.z).toBeCloseTo(0);
+
+    for (let i = 0; i < 30; i++) motor.step(1 / 60);
+    expect(motor.getState().position.y).toBeCloseTo(2.6);
+
+    motor.step(0.25, { move: { x: 0, y: -1 } });
+    expect(motor.getState().position.y).toBeCloseTo(2.1);
+  });
+
+  it("caps the climb speed for diagonal and oversized input", () => {
+    const diagonal = createMotor().step(0.1, { move: { x: 1, y: 1 } });
+    expect(diagonal.velocity.length()).toBeCloseTo(2);
+    expect(diagonal.velocity.y).toBeCloseTo(Math.SQRT2);
+
+    const oversized = createMotor().step(0.1, { move: { x: 0, y: 5 } });
+    expect(oversized.velocity.y).toBeCloseTo(2);
+    expect(oversized.position.y).toBeCloseTo(1.8);
+  });
+
+  it("only grabs the ladder while facing it", () => {
+    const motor = createMotor();
+
+    motor.step(0.5, { ...climb, yaw: Math.PI });
+
+    expect(motor.isOnLadder()).toBe(false);
+    expect(motor.getState().position.y).toBeCloseTo(1.6);
+    expect(motor.getState().position.z).toBeGreaterThan(0);
+  });
+
+  it("pushes off and lets go when jumping", () => {
+    const motor = createMotor();
+    motor.step(0.5, climb);
+
+    const state = motor.step(1 / 60, { actions: ["jump"] });
+    motor.step(1 / 60, climb);
+
+    expect(state.velocity.z).toBeCloseTo(4);
+    expect(state.velocity.y).toBeGreaterThan(0);
+    expect(motor.isOnLadder()).toBe(false);
+  });
+
+  it("steps onto the ledge when climbing past the top", () => {
+    const motor = createMotor();
+
+    for (let i = 0; i < 180; i++) motor.step(1 / 60, climb);
+
+    const state = motor.getState();
+    expect(motor.isOnLadder()).toBe(false);
+    expect(state.onGround).toBe(true);
+    expect(state.position.z).toBeLessThan(-0.5);
+    expect(state.position.y).toBeCloseTo(LEDGE_HEIGHT + 1.6);
+  });
+
+  it("round-trips ladder tuning and the jump-off cooldown through snapshots", () => {
+    const motor = createMotor();
+    motor.step(0.5, climb);
+    motor.step(1 / 60, { actions: ["jump"] });
+
+    const copy = new CharacterMotor({ groundCheckFn: ledgeGround });
+    copy.addLadder(ladder, { normal: new THREE.Vector3(0, 0, 1) });
+    copy.restore(JSON.parse(JSON.stringify(motor.serialize())));
+
+    for (let i = 0; i < 30; i++) {
+      expect(copy.step(1 / 60, climb)).toEqual(motor.step(1 / 60, climb));
+    }
+  });
+});
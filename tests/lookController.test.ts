@@ -59,6 +59,31 @@ describe("LookController", () => {
     controller.dispose();
   });
 
+  it("shares the mouse look pipeline with per-axis sensitivity and smoothing", () => {
+    const onLookChange = vi.fn();
+    const { controller, element } = createLookController({
+      lookSensitivity: 0.01,
+      mouseLook: { sensitivityX: 2, invertY: true },
+      onLookChange,
+    });
+
+    element.dispatchEvent(
+      new MouseEvent("mousemove", { movementX: 10, movementY: 10, bubbles: true }),
+    );
+    expect(controller.getAngles().yaw).toBeCloseTo(-0.2);
+    expect(controller.getAngles().pitch).toBeCloseTo(0.1);
+    expect(onLookChange).toHaveBeenCalledTimes(1);
+
+    controller.setMouseLookOptions({ smoothing: 0.1 });
+    element.dispatchEvent(new MouseEvent("mousemove", { movementX: 10, bubbles: true }));
+    expect(controller.getAngles().yaw).toBeCloseTo(-0.2);
+
+    controller.update(0.1);
+    expect(controller.getAngles().yaw).toBeCloseTo(-0.2 - 0.2 * (1 - Math.exp(-1)));
+
+    controller.dispose();
+  });
+
   it("clamps pitch when maxPitch is lowered", () => {
     const { controller, element } = createLookController();
 
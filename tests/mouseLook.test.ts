@@ -0,0 +1,69 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+
+import { MouseLook } from "../src/input/MouseLook.js";
+
+describe("MouseLook", () => {
+  it("scales each axis and inverts Y", () => {
+    const look = new MouseLook(0.01, { sensitivityX: 2, sensitivityY: 0.5, invertY: true });
+
+    look.addMovement(10, 10, 0);
+
+    const delta = look.consume(0);
+    expect(delta.x).toBeCloseTo(0.2);
+    expect(delta.y).toBeCloseTo(-0.05);
+    expect(look.consume(0)).toEqual({ x: 0, y: 0 });
+  });
+
+  it("accepts the sensitivity in degrees per count", () => {
+    const look = new MouseLook(0.01, { degreesPerCount: 0.022 });
+
+    look.addMovement(1000, 0, 0);
+
+    expect(look.getSensitivity()).toBeCloseTo((0.022 * Math.PI) / 180);
+    expect(look.consume(0).x).toBeCloseTo((22 * Math.PI) / 180);
+  });
+
+  it("speeds up fast moves along the acceleration curve up to the limit", () => {
+    const look = new MouseLook(0.01, {
+      acceleration: 0.1,
+      accelerationExponent: 2,
+      accelerationLimit: 3,
+    });
+
+    expect(look.getAccelerationGain(0)).toBe(1);
+    expect(look.getAccelerationGain(5)).toBeCloseTo(1.25);
+    expect(look.getAccelerationGain(100)).toBe(3);
+
+    // The first move has no speed yet; the second covers 20 counts in 4 ms.
+    look.addMovement(20, 0, 0);
+    look.addMovement(20, 0, 4);
+    expect(look.consume(0).x).toBeCloseTo(0.2 + 0.2 * 1.25);
+  });
+
+  it("releases smoothed input over time and settles on the full rotation", () => {
+    const look = new MouseLook(0.01, { smoothing: 0.05 });
+    look.addMovement(100, 0, 0);
+
+    expect(look.isSmoothing()).toBe(true);
+    expect(look.consume(0.05).x).toBeCloseTo(1 - Math.exp(-1));
+
+    let total = 1 - Math.exp(-1);
+    for (let i = 0; i < 60; i++) {
+      total += look.consume(1 / 60).x;
+    }
+    expect(total).toBeCloseTo(1, 6);
+    expect(look.consume(1 / 60)).toEqual({ x: 0, y: 0 });
+  });
+
+  it("drops pending rotation on reset", () => {
+    const look = new MouseLook(0.01, { smoothing: 0.1 });
+    look.addMovement(100, 100, 0);
+
+    look.reset();
+
+    expect(look.consume(1)).toEqual({ x: 0, y: 0 });
+  });
+});
@@ -0,0 +1,81 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+
+const createWall = () => {
+  const world = new THREE.Group();
+  const wall = new THREE.Mesh(new THREE.BoxGeometry(10, 10, 1), new THREE.MeshBasicMaterial());
+  wall.position.set(0, 5, -3);
+  world.add(wall);
+  wall.updateMatrixWorld(true);
+  return world;
+};
+
+describe("Movement modes", () => {
+  it("flies without gravity and moves vertically with ascend/descend", () => {
+    const motor = new CharacterMotor({ moveSpeed: 4, movementMode: "fly" });
+    const start = motor.getState().position.y;
+
+    motor.step(0.5, { actions: ["ascend"] });
+    const risen = motor.getState().position.y;
+    for (let i = 0; i < 30; i++) motor.step(1 / 60);
+
+    expect(risen).toBeCloseTo(start + 2);
+    expect(motor.getState().position.y).toBeCloseTo(risen);
+    expect(motor.getState().onGround).toBe(false);
+
+    motor.step(0.25, { actions: ["descend", "jump"] });
+    expect(motor.getState().position.y).toBeCloseTo(risen - 1);
+  });
+
+  it("follows the view pitch when moving forward in fly mode", () => {
+    const motor = new CharacterMotor({ moveSpeed: 2, movementMode: "fly" });
+    const start = motor.getState().position;
+
+    const state = motor.step(1, { move: { x: 0, y: 1 }, pitch: Math.PI / 6 });
+
+    expect(state.position.y - start.y).toBeCloseTo(1);
+    expect(state.position.z - start.z).toBeCloseTo(-Math.sqrt(3));
+  });
+
+  it("collides in fly mode but passes through geometry in noclip", () => {
+    const fly = new CharacterMotor({ movementMode: "fly", collision: { world: createWall() } });
+    const noclip = new CharacterMotor({
+      movementMode: "noclip",
+      collision: { world: createWall() },
+    });
+
+    for (let i = 0; i < 60; i++) {
+      fly.step(1 / 30, { move: { x: 0, y: 1 } });
+      noclip.step(1 / 30, { move: { x: 0, y: 1 } });
+    }
+
+    expect(fly.getState().position.z).toBeGreaterThan(-2.5);
+    expect(noclip.getState().position.z).toBeLessThan(-5);
+    expect(noclip.getCollisionContacts()).toHaveLength(0);
+  });
+
+  it("keeps position and look when switching modes and falls again when walking", () => {
+    const motor = new CharacterMotor({ movementMode: "noclip" });
+    motor.step(1, { actions: ["ascend"], yaw: 0.5, pitch: -0.2 });
+    const hovering = motor.getState();
+
+    motor.setMovementMode("walk");
+    expect(motor.getMovementMode()).toBe("walk");
+    expect(motor.getState().position.equals(hovering.position)).toBe(true);
+    expect(motor.getAngles()).toEqual({ yaw: 0.5, pitch: -0.2 });
+
+    for (let i = 0; i < 120; i++) motor.step(1 / 60);
+    expect(motor.getState().onGround).toBe(true);
+    expect(motor.getState().position.y).toBeCloseTo(motor.getHeight());
+
+    const snapshot = motor.serialize();
+    motor.setMovementMode("fly");
+    motor.restore(snapshot);
+    expect(motor.getMovementMode()).toBe("walk");
+  });
+});
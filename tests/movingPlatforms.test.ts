@@ -0,0 +1,126 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+import type { CharacterMotorSnapshot, GroundCheckFn } from "../src/types.js";
+
+const DT = 1 / 60;
+
+// Reports the platform's top (its origin) as ground while the feet are on it.
+const createMotor = (x = 0) => {
+  const platform = new THREE.Object3D();
+  const groundCheckFn: GroundCheckFn = (state, _delta, height) => {
+    const gap = state.position.y - height - platform.position.y;
+    const onGround = state.velocity.y <= 0 && gap <= 0.05;
+    return {
+      onGround,
+      groundNormal: new THREE.Vector3(0, 1, 0),
+      groundHeight: platform.position.y,
+      ...(onGround ? { groundObject: platform } : {}),
+    };
+  };
+  const motor = new CharacterMotor({
+    groundCheckFn,
+    initialPosition: new THREE.Vector3(x, 1.6, 0),
+  });
+  motor.step(DT);
+  return { motor, platform };
+};
+
+describe("Moving platforms", () => {
+  it("carries the character along and up with the ground object", () => {
+    const { motor, platform } = createMotor();
+
+    for (let i = 0; i < 60; i++) {
+      platform.position.x += 0.05;
+      platform.position.y += 0.02;
+      motor.step(DT);
+    }
+
+    const state = motor.getState();
+    expect(state.position.x).toBeCloseTo(3);
+    expect(state.position.y).toBeCloseTo(2.8);
+    expect(state.onGround).toBe(true);
+    expect(state.velocity.length()).toBeCloseTo(0);
+  });
+
+  it("turns the position and yaw with a rotating platform", () => {
+    const { motor, platform } = createMotor(2);
+
+    for (let i = 0; i < 30; i++) {
+      platform.rotation.y += Math.PI / 60;
+      motor.step(DT);
+    }
+
+    const state = motor.getState();
+    expect(state.position.x).toBeCloseTo(0);
+    expect(state.position.z).toBeCloseTo(-2);
+    expect(state.yaw).toBeCloseTo(Math.PI / 2);
+  });
+
+  it("keeps the platform velocity after jumping off", () => {
+    const { motor, platform } = createMotor();
+    motor.updateOptions({ jumpSpeed: 5 });
+
+    platform.position.x += 0.05;
+    motor.step(DT);
+    expect(motor.getPlatformVelocity(new THREE.Vector3()).x).toBeCloseTo(3);
+
+    platform.position.x += 0.05;
+    const state = motor.step(DT, { actions: ["jump"] });
+
+    expect(state.onGround).toBe(false);
+    expect(state.velocity.x).toBeCloseTo(3);
+    expect(state.velocity.y).toBeGreaterThan(4);
+    expect(motor.getPlatformVelocity(new THREE.Vector3()).length()).toBe(0);
+  });
+
+  it("keeps the velocity across sub-steps but drops it once the platform stops", () => {
+    const { motor, platform } = createMotor();
+
+    // Moved once every two steps, as with two fixed sub-steps per rendered frame.
+    for (let i = 0; i < 3; i++) {
+      motor.step(DT);
+      platform.position.x += 0.1;
+      motor.step(DT);
+      expect(motor.getPlatformVelocity(new THREE.Vector3()).x).toBeCloseTo(3);
+    }
+
+    motor.step(DT);
+    motor.step(DT);
+    const state = motor.step(DT, { actions: ["jump"] });
+
+    expect(state.onGround).toBe(false);
+    expect(state.velocity.x).toBe(0);
+  });
+
+  it("lets go of the platform when teleported", () => {
+    const { motor, platform } = createMotor();
+
+    motor.setState({ position: new THREE.Vector3(10, 1.6, 0) });
+    platform.rotation.y = Math.PI;
+    motor.step(DT);
+
+    expect(motor.getState().position.x).toBeCloseTo(10);
+  });
+
+  it("keeps riding the platform after restoring a snapshot taken on it", () => {
+    const { motor, platform } = createMotor();
+    for (let i = 0; i < 10; i++) {
+      platform.position.x += 0.05;
+      motor.step(DT);
+    }
+
+    motor.restore(JSON.parse(JSON.stringify(motor.serialize())) as CharacterMotorSnapshot);
+
+    for (let i = 0; i < 10; i++) {
+      platform.position.x += 0.05;
+      motor.step(DT);
+    }
+    expect(motor.getState().position.x).toBeCloseTo(1);
+    expect(motor.getPlatformVelocity(new THREE.Vector3()).x).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,222 @@
+/// <reference types="vitest" />
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+
+import { FirstPersonController } from "../src/FirstPersonController.js";
+import type { ControllerState, InputCommand } from "../src/types.js";
+
+interface StateMessage {
+  sequence: number;
+  state: ControllerState;
+}
+
+/** Delivers messages after a fixed number of ticks, serialised like a real socket would. */
+class FakeTransport<T> {
+  private readonly queue: { deliverAt: number; payload: string }[] = [];
+  private tick = 0;
+
+  constructor(private readonly latencyTicks: number) {}
+
+  send(message: T): void {
+    this.queue.push({ deliverAt: this.tick + this.latencyTicks, payload: JSON.stringify(message) });
+  }
+
+  advance(): T[] {
+    this.tick += 1;
+    const ready = this.queue.filter((entry) => entry.deliverAt <= this.tick);
+    this.queue.splice(0, ready.length);
+    return ready.map((entry) => JSON.parse(entry.payload) as T);
+  }
+}
+
+const createController = (focus: boolean) => {
+  const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+  const element = document.createElement("div");
+  element.tabIndex = 0;
+  document.body.appendChild(element);
+  if (focus) element.focus();
+  Object.assign(element, { requestPointerLock: vi.fn() });
+  return {
+    camera,
+    controller: new FirstPersonController(camera, { element, enablePointerLock: false }),
+  };
+};
+
+const toState = (message: StateMessage): ControllerState => ({
+  ...message.state,
+  position: new THREE.Vector3().copy(message.state.position),
+  velocity: new THREE.Vector3().copy(message.state.velocity),
+});
+
+describe("Client prediction", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  const run = (
+    options: { serverMoveSpeed?: number; onInputCommand?: (command: InputCommand) => void } = {},
+  ) => {
+    const server = createController(false);
+    const client = createController(true);
+    const toServer = new FakeTransport<InputCommand>(3);
+    const toClient = new FakeTransport<StateMessage>(3);
+
+    if (options.serverMoveSpeed !== undefined) {
+      server.controller.setMovementConfig({ moveSpeed: options.serverMoveSpeed });
+    }
+    client.controller.setPrediction({
+      onInputCommand: (command) => {
+        options.onInputCommand?.(command);
+        toServer.send(command);
+      },
+    });
+
+    const tick = () => {
+      client.controller.update(1 / 60);
+      toServer.advance().forEach((command) => {
+        const state = server.controller.applyInputCommand(command);
+        toClient.send({ sequence: server.controller.getLastProcessedInput(), state });
+      });
+      toClient
+        .advance()
+        .forEach((message) => client.controller.reconcile(message.sequence, toState(message)));
+    };
+
+    return { server, client, tick };
+  };
+
+  it("numbers commands and keeps the prediction in sync with the server", () => {
+    const commands: number[] = [];
+    const { server, client, tick } = run({
+      onInputCommand: (command) => commands.push(command.sequence),
+    });
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "Space" }));
+    tick();
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "Space" }));
+    for (let i = 0; i < 30; i++) tick();
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+    for (let i = 0; i < 60; i++) tick();
+
+    expect(commands.slice(0, 3)).toEqual([1, 2, 3]);
+    expect(server.controller.getState().position.z).toBeLessThan(-5.5);
+    expect(
+      client.controller.getState().position.distanceTo(server.controller.getState().position),
+    ).toBeLessThan(1e-9);
+    expect(client.controller.getPendingInputCommands().length).toBeLessThanOrEqual(6);
+
+    server.controller.dispose();
+    client.controller.dispose();
+  });
+
+  it("re-simulates on top of authoritative corrections and smooths the camera", () => {
+    const { server, client, tick } = run({ serverMoveSpeed: 2 });
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyW" }));
+    for (let i = 0; i < 6; i++) tick();
+    const predicted = client.controller.getState().position.z;
+    const cameraBefore = client.camera.position.z;
+    tick();
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyW" }));
+
+    // The server moves slower, so the reconciled position falls behind the prediction...
+    expect(client.controller.getState().position.z).toBeGreaterThan(predicted - 5 / 60);
+    // ...while the camera eases over instead of snapping back.
+    expect(client.camera.position.z).toBeLessThan(client.controller.getState().position.z);
+    expect(client.camera.position.z).toBeLessThanOrEqual(cameraBefore);
+
+    for (let i = 0; i < 60; i++) tick();
+    const final = client.controller.getState().position;
+    expect(final.distanceTo(server.controller.getState().position)).toBeLessThan(1e-9);
+    expect(client.camera.position.distanceTo(final)).toBeLessThan(1e-3);
+
+    server.controller.dispose();
+    client.controller.dispose();
+  });
+
+  it("replays jumps pressed during unacknowledged commands", () => {
+    const { controller } = createController(true);
+    controller.setPrediction({});
+
+    controller.update(1 / 60);
+    const acknowledged = controller.getState();
+    document.dispatchEvent(new KeyboardEvent("keydown", { code: "Space" }));
+    for (let i = 0; i < 5; i++) controller.update(1 / 60);
+    const predicted = controller.getState();
+    expect(predicted.velocity.y).toBeGreaterThan(6);
+
+    controller.reconcile(1, acknowledged);
+
+    const state = controller.getState();
+    expect(state.position.y).toBeCloseTo(predicted.position.y, 9);
+    expect(state.velocity.y).toBeCloseTo(predicted.velocity.y, 9);
+
+    document.dispatchEvent(new KeyboardEvent("keyup", { code: "Space" }));
+    controller.dispose();
+  });
+
+  it("replays slides down steep slopes from the acknowledged tick", () => {
+    // A 60° slope rising towards -z, flat ground from z = 0.
+    const angle = Math.PI / 3;
+    const { controller } = createController(true);
+    controller.updateOptions({
+      maxSlopeAngle: 45,
+      groundCheckFn: (state, _delta, height) => {
+        const surface = state.position.z < 0 ? -state.position.z * Math.tan(angle) : 0;
+        return {
+          onGround: state.velocity.y <= 0 && state.position.y - height - surface <= 0.05,
+          groundNormal:
+            state.position.z < 0
+              ? new THREE.Vector3(0, Math.cos(angle), Math.sin(angle))
+              : new THREE.Vector3(0, 1, 0),
+          groundHeight: surface,
+        };
+      },
+    });
+    controller.getMotor().setState({
+      position: new THREE.Vector3(0, 0.3 * Math.tan(angle) + 1.6, -0.3),
+    });
+    controller.setPrediction({});
+
+    controller.update(1 / 60);
+    controller.update(1 / 60);
+    const acknowledged = controller.getState();
+    expect(controller.isSliding()).toBe(true);
+    for (let i = 0; i < 20; i++) controller.update(1 / 60);
+    const predicted = controller.getState();
+    expect(controller.isSliding()).toBe(false);
+
+    controller.reconcile(2, acknowledged);
+
+    const state = controller.getState();
+    expect(state.position.distanceTo(predicted.position)).toBeLessThan(1e-9);
+    expect(state.velocity.distanceTo(predicted.velocity)).toBeLessThan(1e-9);
+
+    controller.dispose();
+  });
+
+  it("ignores duplicate or stale commands on the server", () => {
+    const { controller } = createController(false);
+    const command: InputCommand = {
+      sequence: 1,
+      delta: 0.1,
+      moveX: 0,
+      moveY: 1,
+      actions: 0,
+      yaw: 0,
+      pitch: 0,
+      crouching: false,
+    };
+
+    const first = controller.applyInputCommand(command);
+    const duplicate = controller.applyInputCommand(command);
+
+    expect(first.position.z).toBeLessThan(-5);
+    expect(duplicate.position.z).toBe(first.position.z);
+    expect(controller.getLastProcessedInput()).toBe(1);
+
+    controller.dispose();
+  });
+});
@@ -0,0 +1,120 @@
+/// <reference types="vitest" />
+
+import { describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+
+import { FirstPersonController } from "../src/FirstPersonController.js";
+import { createRaycastGroundCheck } from "../src/collision/raycastGroundCheck.js";
+import type { ControllerState } from "../src/types.js";
+
+const createFloor = (y: number) => {
+  const floor = new THREE.Mesh(new THREE.PlaneGeometry(20, 20), new THREE.MeshBasicMaterial());
+  floor.rotation.x = -Math.PI / 2;
+  floor.position.y = y;
+  floor.updateMatrixWorld(true);
+  return floor;
+};
+
+const createState = (y: number, velocityY = 0): ControllerState => ({
+  position: new THREE.Vector3(0, y, 0),
+  velocity: new THREE.Vector3(0, velocityY, 0),
+  yaw: 0,
+  pitch: 0,
+  onGround: false,
+});
+
+describe("createRaycastGroundCheck", () => {
+  it("reports the height, point, normal and object of the surface below", () => {
+    const floor = createFloor(3);
+    const groundCheck = createRaycastGroundCheck([floor]);
+
+    const result = groundCheck(createState(4.65), 0.016, 1.6);
+
+    expect(result.onGround).toBe(true);
+    expect(result.groundHeight).toBeCloseTo(3);
+    expect(result.groundPoint?.y).toBeCloseTo(3);
+    expect(result.groundNormal?.y).toBeCloseTo(1);
+    expect(result.groundObject).toBe(floor);
+  });
+
+  it("reports the surface tagged on the hit mesh or its parents", () => {
+    const floor = createFloor(0);
+    const level = new THREE.Group();
+    level.userData.surface = "wood";
+    level.add(floor);
+    level.updateMatrixWorld(true);
+
+    expect(createRaycastGroundCheck(level)(createState(1.6), 0.016, 1.6).surface).toBe("wood");
+    floor.userData.surface = "carpet";
+    expect(createRaycastGroundCheck(level)(createState(1.6), 0.016, 1.6).surface).toBe("carpet");
+  });
+
+  it("reports the ceiling above the eye within ceilingDistance", () => {
+    const ceiling = new THREE.Mesh(new THREE.PlaneGeometry(20, 20), new THREE.MeshBasicMaterial());
+    ceiling.rotation.x = Math.PI / 2;
+    ceiling.position.y = 1.5;
+    ceiling.updateMatrixWorld(true);
+    const objects = [createFloor(0), ceiling];
+
+    const near = createRaycastGroundCheck(objects)(createState(1), 0.016, 1);
+    const far = createRaycastGroundCheck(objects, { ceilingDistance: 0.25 })(
+      createState(1),
+      0.016,
+      1,
+    );
+
+    expect(near.onGround).toBe(true);
+    expect(near.ceilingHeight).toBeCloseTo(1.5);
+    expect(far.ceilingHeight).toBeUndefined();
+  });
+
+  it("is airborne when the surface is beyond maxDistance", () => {
+    const groundCheck = createRaycastGroundCheck(createFloor(0), { maxDistance: 0.1 });
+
+    expect(groundCheck(createState(2), 0.016, 1.6).onGround).toBe(false);
+    expect(groundCheck(createState(10), 0.016, 1.6)).toEqual({
+      onGround: false,
+      groundNormal: null,
+    });
+  });
+
+  it("does not snap back to the floor while moving upwards", () => {
+    const groundCheck = createRaycastGroundCheck(createFloor(0));
+
+    expect(groundCheck(createState(1.7, 5), 0.016, 1.6).onGround).toBe(false);
+  });
+
+  it("ignores objects outside the configured layer", () => {
+    const floor = createFloor(0);
+    floor.layers.set(2);
+
+    const defaultLayers = createRaycastGroundCheck(floor);
+    const floorLayer = createRaycastGroundCheck(floor, { layers: 2 });
+
+    expect(defaultLayers(createState(1.6), 0, 1.6).onGround).toBe(false);
+    expect(floorLayer(createState(1.6), 0, 1.6).onGround).toBe(true);
+  });
+
+  it("lets the controller stand on raised terrain", () => {
+    const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+    const element = document.createElement("div");
+    Object.assign(element, { requestPointerLock: vi.fn() });
+
+    const controller = new FirstPersonController(camera, {
+      element,
+      enablePointerLock: false,
+      initialPosition: new THREE.Vector3(0, 8, 0),
+      groundCheckFn: createRaycastGroundCheck(createFloor(5)),
+    });
+
+    for (let i = 0; i < 120; i++) {
+      controller.update(0.016);
+    }
+
+    const state = controller.getState();
+    expect(state.onGround).toBe(true);
+    expect(state.position.y).toBeCloseTo(5 + controller.getHeight());
+
+    controller.dispose();
+  });
+});
@@ -1,6 +1,11 @@
 import { vi } from "vitest";
 
 beforeEach(() => {
+  // Suites running with `@vitest-environment node` have no DOM to prepare.
+  if (typeof document === "undefined") {
+    return;
+  }
+
   Object.defineProperty(document, "pointerLockElement", {
     configurable: true,
     writable: true,
@@ -0,0 +1,118 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+import type { CharacterMotorOptions, GroundCheckFn, MotorInput } from "../src/types.js";
+
+const DT = 1 / 60;
+
+// Flat ground for z >= 0 and a slope of `degrees` rising towards -z.
+const createSlope = (degrees: number) => {
+  const angle = THREE.MathUtils.degToRad(degrees);
+  const heightAt = (z: number) => (z < 0 ? -z * Math.tan(angle) : 0);
+  const groundCheckFn: GroundCheckFn = (state, _delta, height) => {
+    const surface = heightAt(state.position.z);
+    return {
+      onGround: state.velocity.y <= 0 && state.position.y - height - surface <= 0.05,
+      groundNormal:
+        state.position.z < 0
+          ? new THREE.Vector3(0, Math.cos(angle), Math.sin(angle))
+          : new THREE.Vector3(0, 1, 0),
+      groundHeight: surface,
+    };
+  };
+  return { angle, heightAt, groundCheckFn };
+};
+
+const createMotor = (degrees: number, z: number, options: CharacterMotorOptions = {}) => {
+  const { angle, heightAt, groundCheckFn } = createSlope(degrees);
+  const motor = new CharacterMotor({
+    maxSlopeAngle: 45,
+    groundCheckFn,
+    initialPosition: new THREE.Vector3(0, heightAt(z) + 1.6, z),
+    ...options,
+  });
+  return { motor, angle, heightAt };
+};
+
+const run = (motor: CharacterMotor, seconds: number, input?: MotorInput) => {
+  for (let t = 0; t < seconds - 1e-9; t += DT) {
+    motor.step(DT, input);
+  }
+};
+
+describe("Slopes", () => {
+  it("slides down steep slopes against friction while staying on the surface", () => {
+    const { motor, angle, heightAt } = createMotor(60, -3, { slideFriction: 0.2 });
+
+    run(motor, 0.5);
+
+    const state = motor.getState();
+    const expected = 20 * (Math.sin(angle) - 0.2 * Math.cos(angle)) * 0.5;
+    expect(motor.isSliding()).toBe(true);
+    expect(state.onGround).toBe(false);
+    expect(state.velocity.length()).toBeGreaterThan(expected * 0.9);
+    expect(state.velocity.length()).toBeLessThan(expected * 1.1);
+    expect(state.velocity.z).toBeGreaterThan(0);
+    expect(state.position.y).toBeCloseTo(heightAt(state.position.z) + 1.6, 1);
+  });
+
+  it("holds still when the friction outweighs the slope", () => {
+    const { motor } = createMotor(60, -3, { slideFriction: 2 });
+
+    run(motor, 0.5);
+
+    expect(motor.isSliding()).toBe(true);
+    expect(motor.getState().velocity.length()).toBeLessThan(1e-6);
+  });
+
+  it("only lets input steer across the slope", () => {
+    const { motor } = createMotor(60, -3);
+
+    run(motor, 0.25, { move: { x: 1, y: 1 } });
+
+    const state = motor.getState();
+    expect(state.position.z).toBeGreaterThan(-3);
+    expect(state.velocity.x).toBeCloseTo(5 / Math.SQRT2);
+  });
+
+  it("stands up again at the bottom", () => {
+    const { motor } = createMotor(60, -0.5);
+
+    run(motor, 1);
+
+    expect(motor.isSliding()).toBe(false);
+    expect(motor.getState().onGround).toBe(true);
+    expect(motor.getState().position.y).toBeCloseTo(1.6);
+  });
+
+  it("scales walking speed on walkable slopes", () => {
+    const speedOn = (forward: number) => {
+      const { motor } = createMotor(20, -3, {
+        uphillSpeedMultiplier: 0.5,
+        downhillSpeedMultiplier: 1.5,
+      });
+      motor.step(DT);
+      motor.step(DT, { move: { x: 0, y: forward } });
+      return Math.abs(motor.getState().velocity.z);
+    };
+
+    expect(speedOn(1)).toBeCloseTo(5 * (1 - 0.5 * (20 / 45)));
+    expect(speedOn(-1)).toBeCloseTo(5 * (1 + 0.5 * (20 / 45)));
+    expect(createMotor(20, -3).motor.step(DT, { move: { x: 0, y: 1 } }).velocity.z).toBe(-5);
+  });
+
+  it("round-trips sliding through snapshots", () => {
+    const { motor } = createMotor(60, -3);
+    run(motor, 0.2);
+
+    const copy = new CharacterMotor({ groundCheckFn: createSlope(60).groundCheckFn });
+    copy.restore(JSON.parse(JSON.stringify(motor.serialize())));
+
+    expect(copy.isSliding()).toBe(true);
+    expect(copy.step(DT)).toEqual(motor.step(DT));
+  });
+});
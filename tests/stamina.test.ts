@@ -0,0 +1,102 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it, vi } from "vitest";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+import type { MotorInput, StaminaOptions } from "../src/types.js";
+
+const sprint: MotorInput = { move: { x: 0, y: 1 }, actions: ["sprint"] };
+const speedOf = (motor: CharacterMotor) => motor.getState().velocity.length();
+
+const createMotor = (stamina: StaminaOptions = {}) =>
+  new CharacterMotor({
+    moveSpeed: 4,
+    sprintMultiplier: 2,
+    stamina: {
+      maxStamina: 10,
+      drainRate: 10,
+      jumpCost: 3,
+      regenDelay: 0.5,
+      regenRate: 10,
+      exhaustionThreshold: 5,
+      ...stamina,
+    },
+  });
+
+describe("Stamina", () => {
+  it("is only part of the state when enabled", () => {
+    expect(new CharacterMotor().getState().stamina).toBeUndefined();
+    expect(createMotor().getState().stamina).toEqual({ current: 10, max: 10, exhausted: false });
+  });
+
+  it("drains while sprinting and blocks sprint once exhausted", () => {
+    const onExhaustedChange = vi.fn();
+    const motor = createMotor({ onExhaustedChange });
+
+    motor.step(0.5, sprint);
+    expect(speedOf(motor)).toBeCloseTo(8);
+    expect(motor.getStamina()?.current).toBeCloseTo(5);
+
+    motor.step(0.5, sprint);
+    motor.step(0.1, sprint);
+
+    expect(motor.getStamina()).toEqual({ current: 0, max: 10, exhausted: true });
+    expect(speedOf(motor)).toBeCloseTo(4);
+    expect(onExhaustedChange).toHaveBeenCalledWith(true);
+  });
+
+  it("regenerates after the delay and unblocks sprint at the threshold", () => {
+    const onExhaustedChange = vi.fn();
+    const motor = createMotor({ onExhaustedChange });
+    motor.step(1, sprint);
+
+    motor.step(0.4, sprint);
+    expect(motor.getStamina()?.current).toBe(0);
+
+    motor.step(0.1, sprint);
+    motor.step(0.3, sprint);
+    expect(motor.getStamina()?.current).toBeCloseTo(3);
+    expect(speedOf(motor)).toBeCloseTo(4);
+
+    motor.step(0.2, sprint);
+    expect(motor.getStamina()?.exhausted).toBe(false);
+    expect(onExhaustedChange).toHaveBeenLastCalledWith(false);
+
+    motor.step(0.1, sprint);
+    expect(speedOf(motor)).toBeCloseTo(8);
+  });
+
+  it("charges jumps and resets the regeneration delay", () => {
+    const onChange = vi.fn();
+    const motor = createMotor({ onChange });
+
+    motor.step(1 / 60, { actions: ["jump"] });
+
+    expect(motor.getStamina()?.current).toBe(7);
+    expect(onChange).toHaveBeenCalledWith({ current: 7, max: 10, exhausted: false });
+    motor.step(0.4);
+    expect(motor.getStamina()?.current).toBe(7);
+  });
+
+  it("composes with the crouch speed multiplier", () => {
+    const motor = createMotor();
+    motor.updateOptions({ enableCrouch: true, crouchSpeedMultiplier: 0.5 });
+
+    motor.step(0.1, { ...sprint, crouch: true });
+
+    expect(speedOf(motor)).toBeCloseTo(4);
+    expect(motor.getStamina()?.current).toBeCloseTo(9);
+  });
+
+  it("round-trips stamina through snapshots", () => {
+    const motor = createMotor();
+    motor.step(0.7, sprint);
+
+    const copy = new CharacterMotor();
+    copy.restore(JSON.parse(JSON.stringify(motor.serialize())));
+
+    expect(copy.step(0.3)).toEqual(motor.step(0.3));
+    expect(copy.getStamina()).toEqual(motor.getStamina());
+  });
+});
@@ -0,0 +1,132 @@
+/// <reference types="vitest" />
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+
+import { FirstPersonController } from "../src/FirstPersonController.js";
+import { TouchControls } from "../src/input/TouchControls.js";
+
+const touch = (type: string, pointerId: number, clientX: number, clientY: number) =>
+  new PointerEvent(type, {
+    pointerId,
+    pointerType: "touch",
+    clientX,
+    clientY,
+    bubbles: true,
+    cancelable: true,
+  });
+
+const createElement = () => {
+  const element = document.createElement("div");
+  document.body.appendChild(element);
+  element.getBoundingClientRect = () =>
+    ({ left: 0, top: 0, width: 1000, height: 500, right: 1000, bottom: 500 }) as DOMRect;
+  return element;
+};
+
+describe("TouchControls", () => {
+  beforeEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("maps drags inside the joystick zone to a clamped move vector", () => {
+    const element = createElement();
+    const controls = new TouchControls(element, { joystickRadius: 50 });
+    controls.attach();
+
+    element.dispatchEvent(touch("pointerdown", 1, 100, 400));
+    element.dispatchEvent(touch("pointermove", 1, 125, 400));
+    expect(controls.getMoveVector().x).toBeCloseTo(0.5);
+    expect(controls.getMoveVector().y).toBeCloseTo(0);
+
+    element.dispatchEvent(touch("pointermove", 1, 100, 200));
+    expect(controls.getMoveVector().x).toBeCloseTo(0);
+    expect(controls.getMoveVector().y).toBeCloseTo(1);
+
+    element.dispatchEvent(touch("pointerup", 1, 100, 200));
+    expect(controls.getMoveVector()).toEqual({ x: 0, y: 0 });
+
+    controls.dispose();
+  });
+
+  it("accumulates drag-to-look deltas outside the joystick zone", () => {
+    const element = createElement();
+    const controls = new TouchControls(element, { lookSensitivity: 0.01 });
+    controls.attach();
+
+    element.dispatchEvent(touch("pointerdown", 2, 800, 100));
+    element.dispatchEvent(touch("pointermove", 2, 810, 95));
+    element.dispatchEvent(touch("pointermove", 2, 820, 90));
+
+    const delta = controls.consumeLookDelta();
+    expect(delta.x).toBeCloseTo(0.2);
+    expect(delta.y).toBeCloseTo(-0.1);
+    expect(controls.consumeLookDelta()).toEqual({ x: 0, y: 0 });
+
+    controls.dispose();
+  });
+
+  it("ignores mouse pointers", () => {
+    const element = createElement();
+    const controls = new TouchControls(element);
+    controls.attach();
+
+    element.dispatchEvent(
+      new PointerEvent("pointerdown", { pointerId: 3, pointerType: "mouse", clientX: 800 }),
+    );
+    element.dispatchEvent(
+      new PointerEvent("pointermove", { pointerId: 3, pointerType: "mouse", clientX: 900 }),
+    );
+
+    expect(controls.consumeLookDelta()).toEqual({ x: 0, y: 0 });
+    controls.dispose();
+  });
+
+  it("tracks tap buttons until released", () => {
+    const element = createElement();
+    const jumpButton = document.createElement("button");
+    element.appendChild(jumpButton);
+    const controls = new TouchControls(element, { buttons: { jump: jumpButton } });
+    controls.attach();
+
+    jumpButton.dispatchEvent(touch("pointerdown", 4, 900, 450));
+    expect(controls.isActionPressed("jump")).toBe(true);
+    expect(controls.consumeLookDelta()).toEqual({ x: 0, y: 0 });
+
+    jumpButton.dispatchEvent(touch("pointerup", 4, 900, 450));
+    expect(controls.isActionPressed("jump")).toBe(false);
+
+    controls.dispose();
+  });
+
+  it("moves, looks and crouches the controller from touch input", () => {
+    const element = createElement();
+    Object.assign(element, { requestPointerLock: vi.fn() });
+    const crouchButton = document.createElement("button");
+    element.appendChild(crouchButton);
+    const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+    const controller = new FirstPersonController(camera, {
+      element,
+      enablePointerLock: false,
+      enableCrouch: true,
+      touch: { joystickRadius: 50, lookSensitivity: 0.01, buttons: { crouch: crouchButton } },
+    });
+
+    element.dispatchEvent(touch("pointerdown", 1, 100, 400));
+    element.dispatchEvent(touch("pointermove", 1, 100, 350));
+    element.dispatchEvent(touch("pointerdown", 2, 800, 100));
+    element.dispatchEvent(touch("pointermove", 2, 810, 100));
+    crouchButton.dispatchEvent(touch("pointerdown", 3, 900, 450));
+
+    for (let i = 0; i < 10; i++) {
+      controller.update(0.016);
+    }
+
+    const state = controller.getState();
+    expect(state.yaw).toBeCloseTo(-0.1);
+    expect(Math.hypot(state.velocity.x, state.velocity.z)).toBeGreaterThan(0);
+    expect(state.position.y).toBeLessThan(controller.getHeight());
+
+    controller.dispose();
+  });
+});
@@ -0,0 +1,108 @@
+// @vitest-environment node
+/// <reference types="vitest" />
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+
+import { CharacterMotor } from "../src/CharacterMotor.js";
+import type { GroundCheckFn, MotorInput, WaterVolume } from "../src/types.js";
+
+const POOL_FLOOR = -10;
+const pool = new THREE.Box3(new THREE.Vector3(-20, POOL_FLOOR, -20), new THREE.Vector3(20, 0, 20));
+const poolGround: GroundCheckFn = (state, _delta, height) => {
+  const distanceBelowFeet = state.position.y - height - POOL_FLOOR;
+  return {
+    onGround: distanceBelowFeet <= 0.05 && state.velocity.y <= 0,
+    groundNormal: new THREE.Vector3(0, 1, 0),
+    groundHeight: POOL_FLOOR,
+  };
+};
+
+const createMotor = (y: number, water: WaterVolume = pool) => {
+  const motor = new CharacterMotor({
+    swimSpeed: 3,
+    waterDrag: 2,
+    buoyancy: 1.2,
+    groundCheckFn: poolGround,
+    initialPosition: new THREE.Vector3(0, y, 0),
+  });
+  motor.addWater(water);
+  return motor;
+};
+
+const run = (motor: CharacterMotor, seconds: number, input?: MotorInput) => {
+  for (let t = 0; t < seconds; t += 1 / 60) {
+    motor.step(1 / 60, input);
+  }
+};
+
+describe("Water", () => {
+  it("floats with the eye just above the surface", () => {
+    const motor = createMotor(0.5);
+
+    run(motor, 10);
+
+    expect(motor.isSwimming()).toBe(true);
+    expect(motor.isUnderwater()).toBe(false);
+    // Buoyancy 1.2 balances gravity with 1 / 1.2 of the body below the surface.
+    expect(motor.getState().position.y).toBeCloseTo(1.6 - 1.6 / 1.2, 2);
+    expect(motor.getState().velocity.length()).toBeLessThan(1e-3);
+  });
+
+  it("reaches the swim speed against drag and never sprints", () => {
+    const motor = createMotor(0.5);
+    run(motor, 10);
+
+    run(motor, 5, { move: { x: 0, y: 1 }, actions: ["sprint"] });
+
+    expect(motor.isSprinting()).toBe(false);
+    expect(-motor.getState().velocity.z).toBeCloseTo(3, 2);
+  });
+
+  it("follows the view pitch and flags the eye going under", () => {
+    const motor = createMotor(0.5);
+    run(motor, 10);
+
+    run(motor, 2, { move: { x: 0, y: 1 }, pitch: -Math.PI / 3 });
+
+    expect(motor.getState().position.y).toBeLessThan(-1);
+    expect(motor.isUnderwater()).toBe(true);
+  });
+
+  it("rises to the surface while jump is held", () => {
+    const motor = createMotor(-5);
+    motor.step(1 / 60);
+    expect(motor.isUnderwater()).toBe(true);
+
+    run(motor, 2, { actions: ["jump"] });
+
+    expect(motor.isUnderwater()).toBe(false);
+    expect(motor.getState().position.y).toBeGreaterThan(0);
+  });
+
+  it("accepts a surface height function", () => {
+    const waves = (position: THREE.Vector3) => (Math.abs(position.x) < 5 ? 0.5 : null);
+    const motor = createMotor(0.5, waves);
+
+    motor.step(1 / 60);
+    expect(motor.isSwimming()).toBe(true);
+
+    motor.removeWater(waves);
+    motor.step(1 / 60);
+    expect(motor.isSwimming()).toBe(false);
+  });
+
+  it("round-trips the swim options through snapshots", () => {
+    const motor = createMotor(0.5);
+    motor.updateOptions({ swimSpeed: 5, waterDrag: 3, buoyancy: 1.5 });
+    run(motor, 0.5, { move: { x: 1, y: 0 } });
+
+    const copy = new CharacterMotor({ groundCheckFn: poolGround });
+    copy.addWater(pool);
+    copy.restore(JSON.parse(JSON.stringify(motor.serialize())));
+
+    expect(copy.step(0.1, { move: { x: 1, y: 0 } })).toEqual(
+      motor.step(0.1, { move: { x: 1, y: 0 } }),
+    );
+  });
+});